@@ -3,6 +3,10 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   // Disable Turbopack for production builds
   // Turbopack WASM bindings are not fully supported
+  env: {
+    // The upload zone sends files through the server when they aren't stored on UploadThing
+    NEXT_PUBLIC_STORAGE_PROVIDER: process.env.STORAGE_PROVIDER || "uploadthing",
+  },
 };
 
 export default nextConfig;
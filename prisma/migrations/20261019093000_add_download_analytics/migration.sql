@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "DownloadEvent" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "referrerHost" TEXT,
+    "ipHash" TEXT NOT NULL,
+    "userAgentFamily" TEXT NOT NULL,
+    "isRepeat" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "DownloadEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DownloadDailyStat" (
+    "fileId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "downloads" INTEGER NOT NULL DEFAULT 0,
+    "uniqueDownloads" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DownloadDailyStat_pkey" PRIMARY KEY ("fileId","date")
+);
+
+-- CreateTable
+CREATE TABLE "DownloadReferrerStat" (
+    "fileId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "host" TEXT NOT NULL,
+    "downloads" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DownloadReferrerStat_pkey" PRIMARY KEY ("fileId","date","host")
+);
+
+-- CreateIndex
+CREATE INDEX "DownloadEvent_fileId_createdAt_idx" ON "DownloadEvent"("fileId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DownloadEvent_fileId_ipHash_idx" ON "DownloadEvent"("fileId", "ipHash");
+
+-- CreateIndex
+CREATE INDEX "DownloadEvent_createdAt_idx" ON "DownloadEvent"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DownloadEvent" ADD CONSTRAINT "DownloadEvent_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DownloadDailyStat" ADD CONSTRAINT "DownloadDailyStat_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DownloadReferrerStat" ADD CONSTRAINT "DownloadReferrerStat_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
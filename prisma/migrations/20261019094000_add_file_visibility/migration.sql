@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "Visibility" AS ENUM ('private', 'unlisted', 'public');
+
+-- AlterTable
+ALTER TABLE "File" ADD COLUMN     "visibility" "Visibility" NOT NULL DEFAULT 'unlisted';
+
+-- CreateIndex
+CREATE INDEX "File_visibility_expiresAt_idx" ON "File"("visibility", "expiresAt");
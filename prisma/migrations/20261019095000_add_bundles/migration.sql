@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "Bundle" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "userId" TEXT,
+    "isGuest" BOOLEAN NOT NULL DEFAULT false,
+    "guestId" TEXT,
+    "visibility" "Visibility" NOT NULL DEFAULT 'unlisted',
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Bundle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_BundleToFile" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_BundleToFile_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "Bundle_userId_idx" ON "Bundle"("userId");
+
+-- CreateIndex
+CREATE INDEX "Bundle_guestId_idx" ON "Bundle"("guestId");
+
+-- CreateIndex
+CREATE INDEX "_BundleToFile_B_index" ON "_BundleToFile"("B");
+
+-- AddForeignKey
+ALTER TABLE "Bundle" ADD CONSTRAINT "Bundle_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BundleToFile" ADD CONSTRAINT "_BundleToFile_A_fkey" FOREIGN KEY ("A") REFERENCES "Bundle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BundleToFile" ADD CONSTRAINT "_BundleToFile_B_fkey" FOREIGN KEY ("B") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "UploadSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "guestId" TEXT,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "chunkSize" INTEGER NOT NULL,
+    "totalChunks" INTEGER NOT NULL,
+    "maxDownloads" INTEGER,
+    "visibility" "Visibility" NOT NULL DEFAULT 'unlisted',
+    "rateLimitKey" TEXT NOT NULL,
+    "assemblingAt" TIMESTAMP(3),
+    "fileId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UploadSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UploadChunk" (
+    "sessionId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "size" INTEGER NOT NULL,
+    "data" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UploadChunk_pkey" PRIMARY KEY ("sessionId","index")
+);
+
+-- CreateIndex
+CREATE INDEX "UploadSession_expiresAt_idx" ON "UploadSession"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "UploadChunk" ADD CONSTRAINT "UploadChunk_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "UploadSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
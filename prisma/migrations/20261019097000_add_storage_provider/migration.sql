@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "StorageProviderName" AS ENUM ('uploadthing', 'local');
+
+-- AlterTable
+-- Existing files all live on UploadThing; their URL can be derived from the key
+ALTER TABLE "File" ADD COLUMN "storageProvider" "StorageProviderName" NOT NULL DEFAULT 'uploadthing';
+ALTER TABLE "File" RENAME COLUMN "uploadThingId" TO "storageKey";
+ALTER TABLE "File" DROP COLUMN "uploadThingUrl";
+
+-- RenameIndex
+ALTER INDEX "File_uploadThingId_key" RENAME TO "File_storageKey_key";
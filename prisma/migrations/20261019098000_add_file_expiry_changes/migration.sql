@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "ExpiryChangeSource" AS ENUM ('owner', 'claim');
+
+-- AlterTable
+ALTER TABLE "UploadSession" ADD COLUMN "expiryHours" INTEGER;
+
+-- Sessions started before expiry could be chosen keep the old defaults
+UPDATE "UploadSession" SET "expiryHours" = CASE WHEN "userId" IS NULL THEN 24 ELSE 72 END;
+
+-- CreateTable
+CREATE TABLE "FileExpiryChange" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "previousExpiresAt" TIMESTAMP(3),
+    "newExpiresAt" TIMESTAMP(3),
+    "source" "ExpiryChangeSource" NOT NULL,
+    "changedByUserId" TEXT,
+    "changedByGuestId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FileExpiryChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FileExpiryChange_fileId_createdAt_idx" ON "FileExpiryChange"("fileId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FileExpiryChange" ADD CONSTRAINT "FileExpiryChange_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "PlanName" AS ENUM ('free', 'pro', 'admin');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "plan" "PlanName" NOT NULL DEFAULT 'free';
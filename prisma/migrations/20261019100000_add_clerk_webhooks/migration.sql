@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "email" DROP NOT NULL,
+ADD COLUMN "clerkUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ClerkWebhookEvent" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClerkWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClerkWebhookEvent_processedAt_idx" ON "ClerkWebhookEvent"("processedAt");
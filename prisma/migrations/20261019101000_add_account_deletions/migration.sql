@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "AccountDeletionStatus" AS ENUM ('pending', 'running', 'completed', 'failed');
+
+-- CreateTable
+CREATE TABLE "AccountDeletion" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "AccountDeletionStatus" NOT NULL DEFAULT 'pending',
+    "deleteFromClerk" BOOLEAN NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "deletedFiles" INTEGER NOT NULL DEFAULT 0,
+    "failedFiles" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountDeletion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountDeletion_userId_key" ON "AccountDeletion"("userId");
+
+-- CreateIndex
+CREATE INDEX "AccountDeletion_status_nextAttemptAt_idx" ON "AccountDeletion"("status", "nextAttemptAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "deletionRequestedAt" TIMESTAMP(3);
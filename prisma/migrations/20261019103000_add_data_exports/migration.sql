@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "DataExportStatus" AS ENUM ('pending', 'running', 'ready', 'failed', 'expired');
+
+-- CreateTable
+CREATE TABLE "DataExport" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "DataExportStatus" NOT NULL DEFAULT 'pending',
+    "includeContents" BOOLEAN NOT NULL DEFAULT false,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "fileCount" INTEGER,
+    "size" INTEGER,
+    "storageProvider" "StorageProviderName",
+    "storageKey" TEXT,
+    "lastError" TEXT,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DataExport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DataExport_storageKey_key" ON "DataExport"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "DataExport_userId_requestedAt_idx" ON "DataExport"("userId", "requestedAt");
+
+-- CreateIndex
+CREATE INDEX "DataExport_status_nextAttemptAt_idx" ON "DataExport"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "DataExport_status_expiresAt_idx" ON "DataExport"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "DataExport" ADD CONSTRAINT "DataExport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ExpiryChangeSource" ADD VALUE 'download_limit';
@@ -0,0 +1,10 @@
+-- Chunks stored in the database are dropped; clients resend them when they resume
+DELETE FROM "UploadChunk";
+
+-- AlterTable
+ALTER TABLE "UploadChunk" DROP COLUMN "data",
+ADD COLUMN     "storageKey" TEXT NOT NULL,
+ADD COLUMN     "storageProvider" "StorageProviderName" NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadChunk_storageKey_key" ON "UploadChunk"("storageKey");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "StorageReservation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "guestId" TEXT,
+    "size" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StorageReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StorageReservation_userId_idx" ON "StorageReservation"("userId");
+
+-- CreateIndex
+CREATE INDEX "StorageReservation_guestId_idx" ON "StorageReservation"("guestId");
+
+-- CreateIndex
+CREATE INDEX "StorageReservation_expiresAt_idx" ON "StorageReservation"("expiresAt");
@@ -0,0 +1,85 @@
+/**
+ * Move stored files between storage providers
+ *
+ * Usage: npm run migrate:storage -- --from=uploadthing --to=local
+ *          [--dry-run] [--delete-source] [--concurrency=4] [--batch-size=50]
+ *          [--max-files=N] [--checkpoint=path] [--restart]
+ *
+ * Progress is checkpointed to a JSON file after every batch (by default
+ * .storage-migration-<from>-<to>.json), so rerunning the same command
+ * continues where it stopped. Pass --restart to start from the first file
+ * again, which also retries files that failed earlier.
+ * Requires DATABASE_URL and the configuration of both providers.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { migrateStorage, type MigrationCheckpoint } from '../src/lib/storage-migration';
+import type { StorageProviderName } from '../src/lib/storage';
+import { prisma } from '../src/lib/db';
+
+const PROVIDERS: StorageProviderName[] = ['uploadthing', 'local'];
+
+function readFlag(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+function readNumberFlag(name: string): number | undefined {
+  const value = parseInt(readFlag(name) ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function readProviderFlag(name: string): StorageProviderName {
+  const value = readFlag(name);
+  if (!PROVIDERS.includes(value as StorageProviderName)) {
+    throw new Error(`--${name} must be one of: ${PROVIDERS.join(', ')}`);
+  }
+  return value as StorageProviderName;
+}
+
+async function loadCheckpoint(path: string): Promise<MigrationCheckpoint | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function main() {
+  const from = readProviderFlag('from');
+  const to = readProviderFlag('to');
+  const checkpointPath = readFlag('checkpoint') ?? `.storage-migration-${from}-${to}.json`;
+  const checkpoint = process.argv.includes('--restart') ? null : await loadCheckpoint(checkpointPath);
+
+  if (checkpoint?.lastFileId) {
+    console.error(`Resuming after file ${checkpoint.lastFileId} (checkpoint from ${checkpoint.updatedAt})`);
+  }
+
+  const report = await migrateStorage({
+    from,
+    to,
+    batchSize: readNumberFlag('batch-size'),
+    concurrency: readNumberFlag('concurrency'),
+    maxFiles: readNumberFlag('max-files'),
+    deleteSource: process.argv.includes('--delete-source'),
+    dryRun: process.argv.includes('--dry-run'),
+    checkpoint,
+    onCheckpoint: (next) => writeFile(checkpointPath, JSON.stringify(next, null, 2)),
+  });
+
+  console.log(JSON.stringify(report, null, 2));
+
+  if (report.failed.length > 0 || report.sourceDeleteFailed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Storage migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,41 @@
+/**
+ * Assign an account to a plan
+ *
+ * Usage: npm run plan:set -- --user=<clerk user ID> --plan=<free|pro|admin>
+ * The plan's limits are defined in src/lib/plans.ts.
+ * Requires DATABASE_URL and CLERK_SECRET_KEY (to create the account's
+ * local record if it has never uploaded).
+ */
+
+import { ACCOUNT_PLAN_IDS, PLANS, type AccountPlanId } from '../src/lib/plans';
+import { setUserPlan } from '../src/lib/users';
+import { prisma } from '../src/lib/db';
+
+function readFlag(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+async function main() {
+  const userId = readFlag('user');
+  const plan = readFlag('plan');
+
+  if (!userId) {
+    throw new Error('--user is required');
+  }
+  if (!ACCOUNT_PLAN_IDS.includes(plan as AccountPlanId)) {
+    throw new Error(`--plan must be one of: ${ACCOUNT_PLAN_IDS.join(', ')}`);
+  }
+
+  const user = await setUserPlan(userId, plan as AccountPlanId);
+  console.log(`${user.email || user.id} is now on the ${PLANS[user.plan].name} plan`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Failed to set plan:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
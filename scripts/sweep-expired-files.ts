@@ -0,0 +1,40 @@
+/**
+ * Standalone expiry sweeper
+ *
+ * Usage: npm run sweep:expired -- [--dry-run] [--batch-size=100] [--max-batches=50]
+ * Requires DATABASE_URL, plus UPLOADTHING_TOKEN for files on UploadThing
+ * or LOCAL_STORAGE_DIR for files on the local filesystem.
+ */
+
+import { sweepExpiredFiles } from '../src/lib/expiry-sweeper';
+import { prisma } from '../src/lib/db';
+
+function readNumberFlag(name: string): number | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  if (!arg) return undefined;
+  const value = parseInt(arg.split('=')[1], 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+async function main() {
+  const report = await sweepExpiredFiles({
+    batchSize: readNumberFlag('batch-size'),
+    maxBatches: readNumberFlag('max-batches'),
+    dryRun: process.argv.includes('--dry-run'),
+  });
+
+  console.log(JSON.stringify(report, null, 2));
+
+  if (report.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Expiry sweep failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getDataExportDownload } from "@/lib/data-export";
+import { contentDisposition } from "@/lib/downloads";
+import { withRateLimit } from "@/lib/route-rate-limit";
+
+/**
+ * GET /api/account/export/[exportId]
+ * Stream a ready data export archive to its owner, until the export expires
+ */
+export const GET = withRateLimit("account", async (
+  req: Request,
+  { params }: { params: Promise<{ exportId: string }> }
+) => {
+  const { exportId } = await params;
+
+  try {
+    const { userId: clerkUserId } = await auth();
+
+    if (!clerkUserId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const download = await getDataExportDownload(clerkUserId, exportId);
+
+    if ("error" in download) {
+      return NextResponse.json({ error: download.error }, { status: download.status });
+    }
+
+    return new Response(download.stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": contentDisposition(download.fileName),
+        ...(download.size !== null && { "Content-Length": String(download.size) }),
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading data export:", error);
+    return NextResponse.json(
+      { error: "Failed to download data export" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,76 @@
+import { NextResponse, after } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getLatestDataExport, requestDataExport, runDataExport } from "@/lib/data-export";
+import { dataExportSchema, parseJsonBody } from "@/lib/validation";
+import { withRateLimit } from "@/lib/route-rate-limit";
+
+// The archive is assembled after the response is sent
+export const maxDuration = 60;
+
+/**
+ * GET /api/account/export
+ * The signed-in user's most recent data export (null if there is none)
+ */
+export const GET = withRateLimit("account", async () => {
+  try {
+    const { userId: clerkUserId } = await auth();
+
+    if (!clerkUserId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const latest = await getLatestDataExport(clerkUserId);
+
+    return NextResponse.json({ export: latest });
+  } catch (error) {
+    console.error("Error fetching data export:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch data export" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/account/export
+ * Start assembling an archive of the signed-in user's data.
+ * Body: `{ includeContents?: boolean }` to add the files themselves.
+ * Exports the background run doesn't finish are picked up by the data-exports cron.
+ */
+export const POST = withRateLimit("account", async (req: Request) => {
+  try {
+    const { userId: clerkUserId } = await auth();
+
+    if (!clerkUserId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = await parseJsonBody(req, dataExportSchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const result = await requestDataExport(clerkUserId, parsed.data.includeContents);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    after(async () => {
+      try {
+        await runDataExport(result.export.id);
+      } catch (error) {
+        console.error(`Error running data export ${result.export.id}:`, error);
+      }
+    });
+
+    return NextResponse.json({ success: true, export: result.export }, { status: 202 });
+  } catch (error) {
+    console.error("Error requesting data export:", error);
+    return NextResponse.json(
+      { error: "Failed to request data export" },
+      { status: 500 }
+    );
+  }
+});
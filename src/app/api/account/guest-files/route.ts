@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { cookies } from "next/headers";
+import { ensureUserRecord, getUserPlan } from "@/lib/users";
+import { getGuestId } from "@/lib/guest-id";
+import { claimGuestFiles, getClaimableFiles, CLAIM_DECLINED_COOKIE } from "@/lib/guest-claim";
+import { withRateLimit } from "@/lib/route-rate-limit";
+
+/**
+ * Read the time the user last declined to claim, if any
+ */
+async function getDeclinedAt(): Promise<Date | undefined> {
+  const cookieStore = await cookies();
+  const value = Number(cookieStore.get(CLAIM_DECLINED_COOKIE)?.value);
+  return Number.isFinite(value) && value > 0 ? new Date(value) : undefined;
+}
+
+/**
+ * GET /api/account/guest-files
+ * List guest uploads from this browser that the signed-in user can claim,
+ * and how long claimed files are kept on the user's plan
+ */
+export const GET = withRateLimit("account", async () => {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const guestId = await getGuestId();
+    const { defaultRetentionHours: retentionHours } = await getUserPlan(userId);
+
+    if (!guestId) {
+      return NextResponse.json({ files: [], totalSize: 0, retentionHours });
+    }
+
+    const files = await getClaimableFiles(guestId, await getDeclinedAt());
+
+    return NextResponse.json({
+      files,
+      totalSize: files.reduce((acc, file) => acc + file.size, 0),
+      retentionHours,
+    });
+  } catch (error) {
+    console.error("Error fetching claimable guest files:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch guest files" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/account/guest-files
+ * Move this browser's guest uploads into the signed-in user's account.
+ * Files that don't fit in the account's storage quota are left out and
+ * returned as `skipped`.
+ */
+export const POST = withRateLimit("account", async () => {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const guestId = await getGuestId();
+
+    if (!guestId) {
+      return NextResponse.json({ success: true, claimed: [], totalSize: 0, skipped: [] });
+    }
+
+    // Claimed files reference the user row, so make sure it exists
+    await ensureUserRecord(userId);
+
+    const { claimed, totalSize, skipped } = await claimGuestFiles(userId, guestId, await getDeclinedAt());
+    console.log(`Claimed ${claimed.length} guest files for user ${userId} (${skipped.length} over the storage quota)`);
+
+    return NextResponse.json({ success: true, claimed, totalSize, skipped });
+  } catch (error) {
+    console.error("Error claiming guest files:", error);
+    return NextResponse.json(
+      { error: "Failed to claim guest files", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/account/guest-files
+ * Decline the claim. Existing guest uploads stay with the guest and
+ * expire as usual; only newer uploads will be offered again.
+ */
+export const DELETE = withRateLimit("account", async () => {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(CLAIM_DECLINED_COOKIE, String(Date.now()), {
+    maxAge: 60 * 60 * 24 * 30, // 30 days, same as the guest ID cookie
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+  });
+  return response;
+});
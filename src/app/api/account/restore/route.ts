@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { restoreAccount } from "@/lib/account-deletion";
+import { withRateLimit } from "@/lib/route-rate-limit";
+
+/**
+ * POST /api/account/restore
+ * Cancel a pending account deletion and make the user's files available again
+ */
+export const POST = withRateLimit("account", async () => {
+  try {
+    const { userId: clerkUserId } = await auth();
+
+    if (!clerkUserId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const restored = await restoreAccount(clerkUserId);
+    if (!restored) {
+      return NextResponse.json(
+        { error: "This account is no longer pending deletion and can't be restored" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error restoring account:", error);
+    return NextResponse.json(
+      { error: "Failed to restore account" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,8 +1,14 @@
 import { NextResponse } from "next/server";
-import { auth, clerkClient } from "@clerk/nextjs/server";
-import { prisma } from "@/lib/db";
+import { auth } from "@clerk/nextjs/server";
+import { getDeletionGraceDays, getPendingAccountDeletion, scheduleAccountDeletion } from "@/lib/account-deletion";
+import { withRateLimit } from "@/lib/route-rate-limit";
 
-export async function DELETE() {
+/**
+ * GET /api/account
+ * Whether the signed-in user's account is waiting to be deleted
+ * (and can still be restored)
+ */
+export const GET = withRateLimit("account", async () => {
   try {
     const { userId: clerkUserId } = await auth();
 
@@ -10,23 +16,42 @@ export async function DELETE() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // First, delete all files associated with the user
-    await prisma.file.deleteMany({
-      where: { userId: clerkUserId },
-    });
+    const pending = await getPendingAccountDeletion(clerkUserId);
 
-    // Then delete the user from our database
-    await prisma.user.delete({
-      where: { id: clerkUserId },
+    return NextResponse.json({
+      deletionRequestedAt: pending?.requestedAt ?? null,
+      deleteAt: pending?.deleteAt ?? null,
+      graceDays: getDeletionGraceDays(),
     });
+  } catch (error) {
+    console.error("Error fetching account status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch account status" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/account
+ * Delete the signed-in user's account. Files are hidden right away; the
+ * account, its files (from storage too) and the Clerk user are deleted for
+ * good once the grace period ends, unless it is restored before then.
+ */
+export const DELETE = withRateLimit("account", async () => {
+  try {
+    const { userId: clerkUserId } = await auth();
+
+    if (!clerkUserId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
-    // Finally, delete the user from Clerk
-    const client = await clerkClient();
-    await client.users.deleteUser(clerkUserId);
+    const deleteAt = await scheduleAccountDeletion(clerkUserId);
 
     return NextResponse.json({ 
       success: true,
-      message: "Account deleted successfully" 
+      deleteAt,
+      message: "Account scheduled for deletion" 
     });
   } catch (error) {
     console.error("Error deleting account:", error);
@@ -35,4 +60,4 @@ export async function DELETE() {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revokeAccessToken } from "@/lib/access-tokens";
+import { withRateLimit } from "@/lib/route-rate-limit";
+
+/**
+ * DELETE /api/account/tokens/[tokenId]
+ * Revoke one of the signed-in user's access tokens; it stops working right away
+ */
+export const DELETE = withRateLimit("account", async (
+  req: Request,
+  { params }: { params: Promise<{ tokenId: string }> }
+) => {
+  try {
+    const { userId: clerkUserId } = await auth();
+
+    if (!clerkUserId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { tokenId } = await params;
+    const revoked = await revokeAccessToken(clerkUserId, tokenId);
+
+    if (!revoked) {
+      return NextResponse.json({ error: "Access token not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking access token:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke access token" },
+      { status: 500 }
+    );
+  }
+});
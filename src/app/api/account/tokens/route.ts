@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createAccessToken, listAccessTokens } from "@/lib/access-tokens";
+import { createAccessTokenSchema, parseJsonBody } from "@/lib/validation";
+import { withRateLimit } from "@/lib/route-rate-limit";
+
+/**
+ * GET /api/account/tokens
+ * The signed-in user's personal access tokens (never the tokens themselves)
+ */
+export const GET = withRateLimit("account", async () => {
+  try {
+    const { userId: clerkUserId } = await auth();
+
+    if (!clerkUserId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const tokens = await listAccessTokens(clerkUserId);
+
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    console.error("Error fetching access tokens:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch access tokens" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/account/tokens
+ * Create a personal access token for the /api/v1 API.
+ * Body: `{ name, scopes }` with scopes from "read", "upload" and "delete".
+ * The token is only included in this response.
+ */
+export const POST = withRateLimit("account", async (req: Request) => {
+  try {
+    const { userId: clerkUserId } = await auth();
+
+    if (!clerkUserId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = await parseJsonBody(req, createAccessTokenSchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const result = await createAccessToken(clerkUserId, parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      { success: true, token: result.token, accessToken: result.accessToken },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating access token:", error);
+    return NextResponse.json(
+      { error: "Failed to create access token" },
+      { status: 500 }
+    );
+  }
+});
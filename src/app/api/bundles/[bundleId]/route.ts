@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getBundle } from "@/lib/bundles";
+import { getOwnership } from "@/lib/file-access";
+import { parseJsonBody, updateBundleSchema } from "@/lib/validation";
+import { withRateLimit } from "@/lib/route-rate-limit";
+
+/**
+ * GET /api/bundles/[bundleId]
+ * Bundle details with the files that are still available
+ */
+export const GET = withRateLimit("read", async (
+  req: Request,
+  { params }: { params: Promise<{ bundleId: string }> }
+) => {
+  try {
+    const { bundleId } = await params;
+    const result = await getBundle(bundleId);
+
+    if (result.status === "not_found") {
+      return NextResponse.json({ error: "Bundle not found" }, { status: 404 });
+    }
+
+    if (result.status === "expired") {
+      return NextResponse.json({ error: "Bundle has expired" }, { status: 410 });
+    }
+
+    if (result.status === "unavailable") {
+      return NextResponse.json({ error: "This bundle is no longer available" }, { status: 410 });
+    }
+
+    const { bundle, files, isOwner } = result;
+
+    return NextResponse.json({
+      ...bundle,
+      isOwner,
+      totalSize: files.reduce((acc, file) => acc + file.size, 0),
+      files: files.map((file) => ({
+        ...file,
+        downloadUrl: `/d/${file.id}`,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching bundle:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch bundle" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Load a bundle and make sure the caller owns it
+ */
+async function getOwnedBundle(bundleId: string) {
+  const bundle = await prisma.bundle.findUnique({
+    where: { id: bundleId },
+    select: { id: true, userId: true, isGuest: true, guestId: true },
+  });
+
+  if (!bundle) {
+    return { error: NextResponse.json({ error: "Bundle not found" }, { status: 404 }) };
+  }
+
+  const { isOwner } = await getOwnership(bundle);
+  if (!isOwner) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  return { bundle };
+}
+
+/**
+ * PATCH /api/bundles/[bundleId]
+ * Rename the bundle or change its visibility or expiry (owner only)
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ bundleId: string }> }
+) {
+  try {
+    const { bundleId } = await params;
+    const parsed = await parseJsonBody(req, updateBundleSchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const owned = await getOwnedBundle(bundleId);
+    if (owned.error) return owned.error;
+
+    const { name, visibility, expiresAt } = parsed.data;
+
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      return NextResponse.json({ error: "Expiry must be in the future" }, { status: 400 });
+    }
+
+    const updated = await prisma.bundle.update({
+      where: { id: bundleId },
+      data: {
+        name,
+        visibility,
+        expiresAt: expiresAt === undefined ? undefined : expiresAt && new Date(expiresAt),
+      },
+      select: { id: true, name: true, visibility: true, expiresAt: true },
+    });
+
+    return NextResponse.json({ success: true, ...updated });
+  } catch (error) {
+    console.error("Error updating bundle:", error);
+    return NextResponse.json(
+      { error: "Failed to update bundle" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bundles/[bundleId]
+ * Remove the bundle link. The files themselves are kept.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ bundleId: string }> }
+) {
+  try {
+    const { bundleId } = await params;
+
+    const owned = await getOwnedBundle(bundleId);
+    if (owned.error) return owned.error;
+
+    await prisma.bundle.delete({
+      where: { id: bundleId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting bundle:", error);
+    return NextResponse.json(
+      { error: "Failed to delete bundle" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { createBundle } from "@/lib/bundles";
+import { createBundleSchema, parseJsonBody } from "@/lib/validation";
+
+/**
+ * POST /api/bundles
+ * Group files owned by the caller (user or guest device) under one share link
+ */
+export async function POST(req: Request) {
+  try {
+    const parsed = await parseJsonBody(req, createBundleSchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const result = await createBundle(parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, id: result.bundleId });
+  } catch (error) {
+    console.error("Error creating bundle:", error);
+    return NextResponse.json(
+      { error: "Failed to create bundle" },
+      { status: 500 }
+    );
+  }
+}
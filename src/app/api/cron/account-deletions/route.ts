@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { processAccountDeletions } from "@/lib/account-deletion";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+// Each job deletes every file of an account from storage
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/account-deletions
+ * Delete accounts whose grace period has ended, and retry deletions that
+ * couldn't delete every file from storage.
+ * Requires `Authorization: Bearer <CRON_SECRET>` (sent automatically by Vercel Cron).
+ */
+export async function GET() {
+  const unauthorized = await verifyCronRequest();
+  if (unauthorized) return unauthorized;
+
+  try {
+    const report = await processAccountDeletions();
+
+    console.log("Account deletions processed:", {
+      processed: report.processed,
+      completed: report.completed,
+      retrying: report.retrying,
+      failed: report.failed.length,
+    });
+
+    if (report.failed.length > 0) {
+      console.error("Account deletions gave up:", report.failed);
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Error processing account deletions:", error);
+    return NextResponse.json(
+      { error: "Failed to process account deletions", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { processDataExports } from "@/lib/data-export";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+// Each job reads every file of an account from storage
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/data-exports
+ * Build data exports that didn't finish in the background and remove
+ * expired archives from storage.
+ * Requires `Authorization: Bearer <CRON_SECRET>` (sent automatically by Vercel Cron).
+ */
+export async function GET() {
+  const unauthorized = await verifyCronRequest();
+  if (unauthorized) return unauthorized;
+
+  try {
+    const report = await processDataExports();
+
+    console.log("Data exports processed:", {
+      processed: report.processed,
+      ready: report.ready,
+      retrying: report.retrying,
+      failed: report.failed.length,
+      expired: report.expired,
+    });
+
+    if (report.failed.length > 0) {
+      console.error("Data exports gave up:", report.failed);
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Error processing data exports:", error);
+    return NextResponse.json(
+      { error: "Failed to process data exports", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { sweepExpiredFiles } from "@/lib/expiry-sweeper";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+// Sweeping can take a while when many files expire at once
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/expire-files
+ * Delete expired files from storage and the database.
+ * Requires `Authorization: Bearer <CRON_SECRET>` (sent automatically by Vercel Cron).
+ */
+export async function GET(req: Request) {
+  const unauthorized = await verifyCronRequest();
+  if (unauthorized) return unauthorized;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const batchSize = parseInt(searchParams.get("batchSize") || "", 10);
+
+    const report = await sweepExpiredFiles({
+      batchSize: Number.isFinite(batchSize) && batchSize > 0 ? Math.min(batchSize, 500) : undefined,
+      dryRun: searchParams.get("dryRun") === "true",
+    });
+
+    console.log("Expiry sweep finished:", {
+      deletedRows: report.deletedRows,
+      failed: report.failed.length,
+      hasMore: report.hasMore,
+    });
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Error sweeping expired files:", error);
+    return NextResponse.json(
+      { error: "Failed to sweep expired files", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
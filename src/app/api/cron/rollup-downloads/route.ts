@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { rollupDownloadEvents } from "@/lib/download-analytics";
+import { verifyCronRequest } from "@/lib/cron-auth";
+
+/**
+ * GET /api/cron/rollup-downloads
+ * Roll download events older than DOWNLOAD_EVENT_RETENTION_DAYS into daily aggregates.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET() {
+  const unauthorized = await verifyCronRequest();
+  if (unauthorized) return unauthorized;
+
+  try {
+    const result = await rollupDownloadEvents();
+    console.log("Download event rollup finished:", result);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error rolling up download events:", error);
+    return NextResponse.json(
+      { error: "Failed to roll up download events", details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json([]);
+    }
+
+    const bundles = await prisma.bundle.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        files: { select: { size: true } },
+      },
+    });
+
+    return NextResponse.json(bundles.map(({ files, ...bundle }) => ({
+      ...bundle,
+      fileCount: files.length,
+      totalSize: files.reduce((acc, file) => acc + file.size, 0),
+    })));
+  } catch (error) {
+    console.error("Error fetching dashboard bundles:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch bundles" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { analyticsToCsv, getFileAnalytics } from "@/lib/download-analytics";
+import { analyticsQuerySchema, formatValidationError } from "@/lib/validation";
+
+/**
+ * GET /api/dashboard/files/[fileId]/analytics
+ * Download analytics for one of the user's files.
+ * Query: `days` (1-365, default 30), `format=csv` to export the daily series.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId } = await params;
+
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { id: true, name: true, size: true, downloadCount: true, userId: true },
+    });
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    if (file.userId !== userId) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = analyticsQuerySchema.safeParse({
+      days: searchParams.get("days") ?? undefined,
+      format: searchParams.get("format") ?? undefined,
+    });
+
+    if (!query.success) {
+      return NextResponse.json({ error: formatValidationError(query.error) }, { status: 400 });
+    }
+
+    const { days, format } = query.data;
+
+    const analytics = await getFileAnalytics(file, days);
+
+    if (format === "csv") {
+      const baseName = file.name.replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_") || "file";
+      return new Response(analyticsToCsv(analytics), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${baseName}-analytics.csv"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    console.error("Error fetching file analytics:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch file analytics" },
+      { status: 500 }
+    );
+  }
+}
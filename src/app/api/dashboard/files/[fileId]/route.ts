@@ -1,9 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
-import { UTApi } from "uploadthing/server";
-import { releaseRateLimit, getRateLimitKey } from "@/lib/rate-limit";
-import { headers } from "next/headers";
+import { getStorageProvider } from "@/lib/storage";
 
 export async function DELETE(
   req: Request,
@@ -31,31 +29,17 @@ export async function DELETE(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Initialize UploadThing API
-    const utapi = new UTApi();
-
-    try {
-      // Delete from UploadThing
-      await utapi.deleteFiles(file.uploadThingId);
-      console.log(`Deleted file from UploadThing: ${file.uploadThingId}`);
-    } catch (uploadError) {
-      console.error("Error deleting from UploadThing:", uploadError);
-      // Continue with database deletion even if UploadThing fails
-    }
-
-    // Release rate limit usage
     try {
-      const headersList = await headers();
-      const ip = headersList.get("x-forwarded-for")?.split(",")[0] ||
-        headersList.get("x-real-ip") ||
-        "unknown";
-      const rateLimitKey = getRateLimitKey(userId, ip);
-      releaseRateLimit(rateLimitKey, file.size);
-      console.log(`Released rate limit for dashboard delete - ${rateLimitKey}: ${file.size} bytes`);
-    } catch (rateLimitError) {
-      console.error("Error releasing rate limit:", rateLimitError);
+      // Delete from storage
+      const storage = await getStorageProvider(file.storageProvider);
+      await storage.delete(file.storageKey);
+      console.log(`Deleted file from ${storage.name} storage: ${file.storageKey}`);
+    } catch (storageError) {
+      console.error("Error deleting from storage:", storageError);
+      // Continue with database deletion even if storage fails
     }
 
+    // Deleting the row frees its storage quota; the daily upload limit is not given back
     // Delete from database
     await prisma.file.delete({
       where: { id: fileId },
@@ -19,7 +19,11 @@ export async function GET() {
       orderBy: { uploadDate: 'desc' },
     });
 
-    return NextResponse.json(files);
+    // Never send password hashes to the client
+    return NextResponse.json(files.map(({ passwordHash, ...file }) => ({
+      ...file,
+      hasPassword: !!passwordHash,
+    })));
   } catch (error) {
     console.error("Error fetching dashboard files:", error);
     return NextResponse.json(
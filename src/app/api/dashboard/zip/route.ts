@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { createZipDownload } from "@/lib/zip-download";
+import { formatValidationError, zipSelectionQuerySchema } from "@/lib/validation";
+
+/**
+ * GET /api/dashboard/zip?ids=<fileId>,<fileId>
+ * Stream a selection of the user's own files as one ZIP.
+ * Counts as one download of each included file.
+ */
+export async function GET(req: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = zipSelectionQuerySchema.safeParse({
+      ids: searchParams.get("ids") ?? undefined,
+    });
+
+    if (!query.success) {
+      return NextResponse.json({ error: formatValidationError(query.error) }, { status: 400 });
+    }
+
+    const files = await prisma.file.findMany({
+      where: { id: { in: query.data.ids }, userId },
+      orderBy: { name: "asc" },
+    });
+
+    if (files.length !== new Set(query.data.ids).size) {
+      return NextResponse.json({ error: "One or more files were not found" }, { status: 404 });
+    }
+
+    const result = await createZipDownload(files, `liteshare-${new Date().toISOString().slice(0, 10)}`);
+    if (!(result instanceof Response)) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return result;
+  } catch (error) {
+    console.error("Error downloading selection:", error);
+    return NextResponse.json(
+      { error: "Failed to download files" },
+      { status: 500 }
+    );
+  }
+}
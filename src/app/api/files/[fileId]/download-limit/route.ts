@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { isDownloadLimitReached } from "@/lib/downloads";
+import { restoreExpiryAfterLimitRaised } from "@/lib/expiry";
+import { getFileAccess } from "@/lib/file-access";
+import { downloadLimitSchema, parseJsonBody } from "@/lib/validation";
+
+/**
+ * PUT /api/files/[fileId]/download-limit
+ * Set or remove (`maxDownloads: null`) the download cap of a file.
+ * Raising the cap of a used-up file gives it back the expiry it had before.
+ * Only the owner (authenticated user or the guest device that uploaded it) may do this
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { fileId } = await params;
+    const parsed = await parseJsonBody(req, downloadLimitSchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { maxDownloads } = parsed.data;
+
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { id: true, userId: true, isGuest: true, guestId: true, passwordHash: true, visibility: true, downloadCount: true, maxDownloads: true, expiresAt: true },
+    });
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const { isOwner, userId } = await getFileAccess(file);
+    if (!isOwner) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (maxDownloads !== null && maxDownloads <= file.downloadCount) {
+      return NextResponse.json(
+        { error: `This file has already been downloaded ${file.downloadCount} times. Choose a higher limit.` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.file.update({
+      where: { id: file.id },
+      data: { maxDownloads },
+      select: { maxDownloads: true, downloadCount: true, expiresAt: true },
+    });
+
+    // The file was about to be removed for being used up
+    const expiresAt = isDownloadLimitReached(file)
+      ? await restoreExpiryAfterLimitRaised({ id: file.id, expiresAt: updated.expiresAt }, {
+          userId,
+          guestId: userId ? null : file.guestId,
+        })
+      : updated.expiresAt;
+
+    return NextResponse.json({
+      success: true,
+      maxDownloads: updated.maxDownloads,
+      downloadCount: updated.downloadCount,
+      expiresAt,
+    });
+  } catch (error) {
+    console.error("Error updating download limit:", error);
+    return NextResponse.json(
+      { error: "Failed to update download limit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getFileAccess } from "@/lib/file-access";
+import { changeFileExpiry, getExpiryChoices, getExpiryHistory } from "@/lib/expiry";
+import { getUserPlan } from "@/lib/users";
+import { parseJsonBody, setExpirySchema } from "@/lib/validation";
+
+const fileSelect = {
+  id: true,
+  userId: true,
+  isGuest: true,
+  guestId: true,
+  passwordHash: true,
+  visibility: true,
+  expiresAt: true,
+  downloadCount: true,
+  maxDownloads: true,
+} as const;
+
+/**
+ * GET /api/files/[fileId]/expiry
+ * Current expiry, the expiry options the owner's plan allows and the
+ * history of changes. Owner only.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { fileId } = await params;
+
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: fileSelect,
+    });
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const { isOwner, userId } = await getFileAccess(file);
+    if (!isOwner) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { options, defaultOption } = getExpiryChoices(await getUserPlan(userId));
+
+    return NextResponse.json({
+      expiresAt: file.expiresAt,
+      options,
+      defaultOption,
+      history: await getExpiryHistory(file.id),
+    });
+  } catch (error) {
+    console.error("Error fetching expiry:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch expiry" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/files/[fileId]/expiry
+ * Set the file to expire `expiresIn` from now, which can extend, shorten
+ * or renew it. The option must be allowed on the owner's plan.
+ * Only the owner (authenticated user or the guest device that uploaded it) may do this
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { fileId } = await params;
+    const parsed = await parseJsonBody(req, setExpirySchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: fileSelect,
+    });
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const { isOwner, userId } = await getFileAccess(file);
+    if (!isOwner) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await changeFileExpiry(file, parsed.data.expiresIn, await getUserPlan(userId), {
+      userId,
+      guestId: userId ? null : file.guestId,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, expiresAt: result.expiresAt });
+  } catch (error) {
+    console.error("Error updating expiry:", error);
+    return NextResponse.json(
+      { error: "Failed to update expiry" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getFileAccess } from "@/lib/file-access";
+import { hashPassword } from "@/lib/file-password";
+import { parseJsonBody, setPasswordSchema } from "@/lib/validation";
+
+/**
+ * PUT /api/files/[fileId]/password
+ * Set, change or remove (`password: null`) the share password of a file
+ * Only the owner (authenticated user or the guest device that uploaded it) may do this
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { fileId } = await params;
+    const parsed = await parseJsonBody(req, setPasswordSchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { password } = parsed.data;
+
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { id: true, userId: true, isGuest: true, guestId: true, passwordHash: true, visibility: true },
+    });
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const { isOwner } = await getFileAccess(file);
+    if (!isOwner) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await prisma.file.update({
+      where: { id: file.id },
+      data: {
+        passwordHash: password === null ? null : await hashPassword(password),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      isPasswordProtected: password !== null,
+    });
+  } catch (error) {
+    console.error("Error updating file password:", error);
+    return NextResponse.json(
+      { error: "Failed to update password" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,23 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { cookies } from "next/headers";
 import { prisma } from "@/lib/db";
-import { UTApi } from "uploadthing/server";
-import { releaseRateLimit, getRateLimitKey } from "@/lib/rate-limit";
-import { headers } from "next/headers";
+import { getStorageProvider } from "@/lib/storage";
+import { isDownloadLimitReached } from "@/lib/downloads";
+import { getFileAccess } from "@/lib/file-access";
+import { getGuestId } from "@/lib/guest-id";
+import { withRateLimit } from "@/lib/route-rate-limit";
 
 /**
  * GET /api/files/[fileId]
  * Get file details
+ * Downloads go through `/d/[fileId]`; for password-protected files the download
+ * URL is only included for the owner or with a valid unlock token
+ * (cookie or `x-unlock-token` header)
  */
-export async function GET(
+export const GET = withRateLimit("read", async (
   req: Request,
   { params }: { params: Promise<{ fileId: string }> }
-) {
+) => {
   try {
     const { fileId } = await params;
 
@@ -35,6 +39,17 @@ export async function GET(
       return NextResponse.json({ error: "File not found" }, { status: 404 });
     }
 
+    // Private files don't exist for anyone but the owner
+    const { isOwner, isHidden, isUnavailable, isLocked } = await getFileAccess(file);
+    if (isHidden) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    // The owner's account is being deleted
+    if (isUnavailable) {
+      return NextResponse.json({ error: "This file is no longer available" }, { status: 410 });
+    }
+
     // Check if file has expired
     if (file.expiresAt && new Date() > file.expiresAt) {
       return NextResponse.json(
@@ -43,15 +58,12 @@ export async function GET(
       );
     }
 
-    const { userId: clerkUserId } = await auth();
-    const cookieStore = await cookies();
-    const guestId = cookieStore.get("guestId")?.value;
-
-    let isOwner = false;
-    if (clerkUserId && file.userId === clerkUserId) {
-      isOwner = true;
-    } else if (!clerkUserId && file.isGuest && file.guestId && guestId === file.guestId) {
-      isOwner = true;
+    // Check if the download cap has been used up
+    if (isDownloadLimitReached(file)) {
+      return NextResponse.json(
+        { error: "This file has reached its download limit" },
+        { status: 410 }
+      );
     }
 
     return NextResponse.json({
@@ -61,11 +73,15 @@ export async function GET(
       type: file.type,
       uploadDate: file.uploadDate,
       downloadCount: file.downloadCount,
+      maxDownloads: file.maxDownloads,
       expiresAt: file.expiresAt,
-      uploadThingUrl: file.uploadThingUrl,
+      downloadUrl: isLocked ? null : `/d/${file.id}`,
       isGuest: file.isGuest,
       user: file.user,
+      visibility: file.visibility,
       isOwner,
+      isPasswordProtected: !!file.passwordHash,
+      isLocked,
     });
   } catch (error) {
     console.error("Error fetching file:", error);
@@ -74,39 +90,7 @@ export async function GET(
       { status: 500 }
     );
   }
-}
-
-/**
- * POST /api/files/[fileId]
- * Increment download count
- */
-export async function POST(
-  req: Request,
-  { params }: { params: Promise<{ fileId: string }> }
-) {
-  try {
-    const { fileId } = await params;
-
-    const file = await prisma.file.update({
-      where: { id: fileId },
-      data: {
-        downloadCount: {
-          increment: 1,
-        },
-      },
-    });
-
-    return NextResponse.json({
-      downloadCount: file.downloadCount,
-    });
-  } catch (error) {
-    console.error("Error incrementing download count:", error);
-    return NextResponse.json(
-      { error: "Failed to update download count" },
-      { status: 500 }
-    );
-  }
-}
+});
 
 /**
  * DELETE /api/files/[fileId]
@@ -118,10 +102,8 @@ export async function DELETE(
 ) {
   try {
     const { userId: clerkUserId } = await auth();
-    const cookieStore = await cookies();
-
-    // Get guest ID from cookie
-    const guestId = cookieStore.get("guestId")?.value;
+    // Verified guest ID from the signed cookie
+    const guestId = await getGuestId();
 
     const { fileId } = await params;
 
@@ -156,31 +138,17 @@ export async function DELETE(
       }, { status: 401 });
     }
 
-    // Initialize UploadThing API
-    const utapi = new UTApi();
-
-    try {
-      // Delete from UploadThing
-      await utapi.deleteFiles(file.uploadThingId);
-      console.log(`Deleted file from UploadThing: ${file.uploadThingId}`);
-    } catch (uploadError) {
-      console.error("Error deleting from UploadThing:", uploadError);
-      // Continue with database deletion even if UploadThing fails
-    }
-
-    // Release rate limit usage
     try {
-      const headersList = await headers();
-      const ip = headersList.get("x-forwarded-for")?.split(",")[0] ||
-        headersList.get("x-real-ip") ||
-        "unknown";
-      const rateLimitKey = getRateLimitKey(clerkUserId, ip);
-      releaseRateLimit(rateLimitKey, file.size);
-      console.log(`Released rate limit for ${rateLimitKey}: ${file.size} bytes`);
-    } catch (rateLimitError) {
-      console.error("Error releasing rate limit:", rateLimitError);
+      // Delete from storage
+      const storage = await getStorageProvider(file.storageProvider);
+      await storage.delete(file.storageKey);
+      console.log(`Deleted file from ${storage.name} storage: ${file.storageKey}`);
+    } catch (storageError) {
+      console.error("Error deleting from storage:", storageError);
+      // Continue with database deletion even if storage fails
     }
 
+    // Deleting the row frees its storage quota; the daily upload limit is not given back
     // Delete from database
     await prisma.file.delete({
       where: { id: fileId },
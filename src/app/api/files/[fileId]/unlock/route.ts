@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/db";
+import { getFileAccess } from "@/lib/file-access";
+import { checkPasswordAttempt, releasePasswordAttempt } from "@/lib/rate-limit";
+import { rateLimitHeaders, type RateLimitErrorBody } from "@/lib/rate-limit-response";
+import {
+  createUnlockToken,
+  unlockCookieName,
+  verifyPassword,
+  UNLOCK_TOKEN_TTL_MS,
+} from "@/lib/file-password";
+import { parseJsonBody, unlockSchema } from "@/lib/validation";
+
+/**
+ * POST /api/files/[fileId]/unlock
+ * Exchange the file password for a short-lived unlock token
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { fileId } = await params;
+    const parsed = await parseJsonBody(req, unlockSchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Password is required" }, { status: 400 });
+    }
+
+    const { password } = parsed.data;
+
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { id: true, userId: true, isGuest: true, guestId: true, expiresAt: true, passwordHash: true, visibility: true },
+    });
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    // Private files don't exist for anyone but the owner
+    const { isHidden, isUnavailable } = await getFileAccess(file);
+    if (isHidden) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    if (isUnavailable) {
+      return NextResponse.json({ error: "This file is no longer available" }, { status: 410 });
+    }
+
+    if (file.expiresAt && new Date() > file.expiresAt) {
+      return NextResponse.json({ error: "File has expired" }, { status: 410 });
+    }
+
+    if (!file.passwordHash) {
+      return NextResponse.json({ error: "File is not password protected" }, { status: 400 });
+    }
+
+    const headersList = await headers();
+    const ip = headersList.get("x-forwarded-for")?.split(",")[0] ||
+      headersList.get("x-real-ip") ||
+      "unknown";
+
+    const attempt = await checkPasswordAttempt(file.id, ip);
+    if (!attempt.success) {
+      const body: RateLimitErrorBody = {
+        error: "Too many password attempts. Please try again later.",
+        reason: "rate_limit_requests",
+        limit: attempt.limit,
+        remaining: attempt.remaining,
+        resetAt: attempt.resetAt,
+        retryAfter: attempt.retryAfter!,
+      };
+      return NextResponse.json(body, { status: 429, headers: rateLimitHeaders(body) });
+    }
+
+    const isValid = await verifyPassword(password, file.passwordHash);
+    if (!isValid) {
+      // Tell the caller how many guesses are left
+      return NextResponse.json(
+        { error: "Incorrect password" },
+        { status: 401, headers: rateLimitHeaders(attempt) }
+      );
+    }
+
+    await releasePasswordAttempt(file.id, ip);
+
+    const { token, expiresAt } = createUnlockToken(file.id, file.passwordHash);
+    const response = NextResponse.json({
+      success: true,
+      unlockToken: token,
+      expiresAt: new Date(expiresAt),
+    });
+
+    response.cookies.set(unlockCookieName(file.id), token, {
+      maxAge: UNLOCK_TOKEN_TTL_MS / 1000,
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+    });
+
+    return response;
+  } catch (error) {
+    console.error("Error unlocking file:", error);
+    return NextResponse.json(
+      { error: "Failed to unlock file" },
+      { status: 500 }
+    );
+  }
+}
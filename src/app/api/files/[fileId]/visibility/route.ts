@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getFileAccess } from "@/lib/file-access";
+import { parseJsonBody, setVisibilitySchema } from "@/lib/validation";
+
+/**
+ * PUT /api/files/[fileId]/visibility
+ * Make a file private (owner only), unlisted (anyone with the link) or public (listed on /browse)
+ * Only the owner (authenticated user or the guest device that uploaded it) may do this
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { fileId } = await params;
+    const parsed = await parseJsonBody(req, setVisibilitySchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { visibility } = parsed.data;
+
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { id: true, userId: true, isGuest: true, guestId: true, passwordHash: true, visibility: true },
+    });
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const { isOwner } = await getFileAccess(file);
+    if (!isOwner) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await prisma.file.update({
+      where: { id: file.id },
+      data: { visibility },
+    });
+
+    return NextResponse.json({ success: true, visibility });
+  } catch (error) {
+    console.error("Error updating file visibility:", error);
+    return NextResponse.json(
+      { error: "Failed to update visibility" },
+      { status: 500 }
+    );
+  }
+}
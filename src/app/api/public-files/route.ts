@@ -1,12 +1,26 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { withRateLimit } from "@/lib/route-rate-limit";
+import { formatValidationError, publicFilesQuerySchema } from "@/lib/validation";
 
-export async function GET(request: Request) {
+/**
+ * GET /api/public-files
+ * List public files that can still be downloaded (at most 100 per request)
+ */
+export const GET = withRateLimit("list", async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get("limit") || "20");
-    const search = searchParams.get("search") || "";
-    const sortBy = searchParams.get("sortBy") || "date";
+    const query = publicFilesQuerySchema.safeParse({
+      limit: searchParams.get("limit") ?? undefined,
+      search: searchParams.get("search") ?? undefined,
+      sortBy: searchParams.get("sortBy") ?? undefined,
+    });
+
+    if (!query.success) {
+      return NextResponse.json({ error: formatValidationError(query.error) }, { status: 400 });
+    }
+
+    const { limit, search, sortBy } = query.data;
 
     // Build where clause for non-expired files only
     const now = new Date();
@@ -21,9 +35,27 @@ export async function GET(request: Request) {
 
     // Build where clause
     const where: any = {
+      // Private and unlisted files are never listed
+      visibility: 'public',
       expiresAt: {
         gte: now, // Only show non-expired files
       },
+      AND: [
+        // Hide files that have used up their download cap
+        {
+          OR: [
+            { maxDownloads: null },
+            { downloadCount: { lt: prisma.file.fields.maxDownloads } },
+          ],
+        },
+        // Hide files of accounts that are being deleted
+        {
+          OR: [
+            { userId: null },
+            { user: { deletionRequestedAt: null } },
+          ],
+        },
+      ],
     };
 
     // Add search filter if provided
@@ -66,4 +98,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
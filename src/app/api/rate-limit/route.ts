@@ -1,32 +1,22 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { headers, cookies } from "next/headers";
-import { prisma } from "@/lib/db";
+import { headers } from "next/headers";
+import { getGuestId } from "@/lib/guest-id";
 import { getRateLimitStatus, getRateLimitKey, formatResetTime } from "@/lib/rate-limit";
-
-// Define the actual limits - This represents the STORAGE QUOTA
-const GUEST_LIMITS = {
-  maxUploads: 10,
-  maxBytes: 32 * 1024 * 1024, // 32MB (2 files × 16MB)
-  expirationHours: 24,  // 24 hours storage
-};
-
-const AUTH_LIMITS = {
-  maxUploads: 100,
-  maxBytes: 512 * 1024 * 1024, // 512MB (8 files × 64MB)
-  expirationHours: 72,  // 72 hours (3 days) storage
-};
+import { getExpiryChoices } from "@/lib/expiry";
+import { getStorageUsage } from "@/lib/storage-quota";
+import { getUserPlan } from "@/lib/users";
 
 /**
  * GET /api/rate-limit
- * Returns current rate limit status for the user
+ * Returns the user's plan, their daily upload rate limit and their storage
+ * quota, which are enforced separately
  */
 export async function GET() {
   try {
     const { userId } = await auth();
     const headersList = await headers();
-    const cookieStore = await cookies();
-    const guestId = cookieStore.get("guestId")?.value;
+    const guestId = await getGuestId();
 
     const ip = headersList.get("x-forwarded-for")?.split(",")[0] ||
       headersList.get("x-real-ip") ||
@@ -34,49 +24,41 @@ export async function GET() {
 
     const isAuthenticated = !!userId;
     const key = getRateLimitKey(userId, ip);
+    const plan = await getUserPlan(userId);
 
-    // Get rate limit info from memory for velocity checks (if needed)
-    const status = getRateLimitStatus(key, isAuthenticated);
-
-    // Get the correct limits based on auth status
-    const limits = isAuthenticated ? AUTH_LIMITS : GUEST_LIMITS;
+    // Get rate limit window info from the shared store
+    const status = await getRateLimitStatus(key, plan);
 
-    // QUERY DATABASE for actual storage usage
-    // This ensures data doesn't "disappear" after upload until explicitly deleted
-    let dbUsedCount = 0;
-    let dbUsedBytes = 0;
+    // Expiry choices for the upload form
+    const expiry = getExpiryChoices(plan);
 
-    if (isAuthenticated) {
-      const userFiles = await prisma.file.findMany({
-        where: { userId: userId },
-        select: { size: true }
-      });
-      dbUsedCount = userFiles.length;
-      dbUsedBytes = userFiles.reduce((acc, file) => acc + file.size, 0);
-    } else if (guestId) {
-      const guestFiles = await prisma.file.findMany({
-        where: { guestId: guestId, isGuest: true },
-        select: { size: true }
-      });
-      dbUsedCount = guestFiles.length;
-      dbUsedBytes = guestFiles.reduce((acc, file) => acc + file.size, 0);
-    }
+    // Bytes currently kept, from the database
+    const storage = await getStorageUsage({ userId, guestId }, plan);
 
     return NextResponse.json({
       success: true,
       data: {
-        remaining: Math.max(0, limits.maxUploads - dbUsedCount),
-        limit: limits.maxUploads,
-        remainingBytes: Math.max(0, limits.maxBytes - dbUsedBytes),
-        totalBytes: dbUsedBytes,
-        maxBytes: limits.maxBytes,
-        resetIn: formatResetTime(status.resetAt), // This still shows rate limit window reset
-        resetAt: status.resetAt,
-        percentageUsed: (dbUsedBytes / limits.maxBytes) * 100,
+        plan: plan.id,
         isAuthenticated,
-        // Calculate percentage based on database values
-        uploadPercentageUsed: (dbUsedCount / limits.maxUploads) * 100,
-        storagePercentageUsed: (dbUsedBytes / limits.maxBytes) * 100,
+        // Upload velocity: uploads and bytes in the current 24-hour window
+        rateLimit: {
+          limit: status.limit,
+          remaining: status.remaining,
+          maxBytes: plan.dailyBytes,
+          usedBytes: status.totalBytes,
+          remainingBytes: status.remainingBytes,
+          resetAt: status.resetAt,
+          resetIn: formatResetTime(status.resetAt),
+          uploadPercentageUsed: ((status.limit - status.remaining) / status.limit) * 100,
+          bytesPercentageUsed: status.percentageUsed,
+        },
+        // Storage quota: everything currently kept, freed on delete or expiry
+        storage: {
+          ...storage,
+          percentageUsed: storage.quotaBytes ? (storage.usedBytes / storage.quotaBytes) * 100 : 0,
+        },
+        expiryOptions: expiry.options,
+        defaultExpiry: expiry.defaultOption,
       },
     });
   } catch (error) {
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getStorageProvider, StorageObjectNotFoundError } from "@/lib/storage";
+import { verifyLocalSignedUrl } from "@/lib/storage-local";
+
+/**
+ * GET /api/storage/local/[key]?expires=...&signature=...
+ * Serve an object from the local storage provider through a signed URL
+ * Only used when files are kept on the local filesystem
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const { key } = await params;
+    const { searchParams } = new URL(req.url);
+
+    if (!verifyLocalSignedUrl(key, searchParams.get("expires"), searchParams.get("signature"))) {
+      return NextResponse.json({ error: "Invalid or expired link" }, { status: 403 });
+    }
+
+    const storage = await getStorageProvider("local");
+    const info = await storage.head(key);
+    if (!info) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    return new Response(await storage.getStream(key), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": String(info.size),
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    if (error instanceof StorageObjectNotFoundError) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+    console.error("Error serving local file:", error);
+    return NextResponse.json(
+      { error: "Failed to serve file" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,15 @@
 import { NextResponse } from "next/server";
-import { auth, clerkClient } from "@clerk/nextjs/server";
-import { prisma } from "@/lib/db";
+import { auth } from "@clerk/nextjs/server";
+import { syncUserFromClerk } from "@/lib/users";
+import { withRateLimit } from "@/lib/route-rate-limit";
 
-export async function POST() {
+/**
+ * POST /api/sync-user
+ * Pull the signed-in user's profile from Clerk right away. Profiles normally
+ * arrive through the Clerk webhook; this backfills accounts created before
+ * the webhook was set up.
+ */
+export const POST = withRateLimit("account", async () => {
   try {
     const { userId: clerkUserId } = await auth();
 
@@ -10,31 +17,8 @@ export async function POST() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Fetch complete user info from Clerk
-    const client = await clerkClient();
-    const clerkUser = await client.users.getUser(clerkUserId);
-    
-    const email = clerkUser.primaryEmailAddress?.emailAddress || '';
-    const name = clerkUser.firstName 
-      ? `${clerkUser.firstName}${clerkUser.lastName ? ` ${clerkUser.lastName}` : ''}`
-      : clerkUser.username || email.split('@')[0] || 'Anonymous';
-    const imageUrl = clerkUser.imageUrl || '';
-
-    // Update user record with complete info
-    const user = await prisma.user.upsert({
-      where: { id: clerkUserId },
-      update: {
-        email,
-        name,
-        imageUrl,
-      },
-      create: {
-        id: clerkUserId,
-        email,
-        name,
-        imageUrl,
-      },
-    });
+    // Update user record with complete info from Clerk
+    const user = await syncUserFromClerk(clerkUserId);
 
     return NextResponse.json({
       success: true,
@@ -52,4 +36,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
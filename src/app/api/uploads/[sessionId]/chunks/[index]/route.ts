@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getOwnedUploadSession, saveUploadChunk } from "@/lib/upload-sessions";
+
+/**
+ * PUT /api/uploads/[sessionId]/chunks/[index]
+ * Store one chunk of a resumable upload (raw bytes in the request body)
+ * Re-sending a chunk is safe and replaces the stored copy
+ * Requests must declare a Content-Length of at most the session's chunk size
+ * Chunks sent while the upload is being assembled are refused with 409
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ sessionId: string; index: string }> }
+) {
+  try {
+    const { sessionId, index } = await params;
+    const session = await getOwnedUploadSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    // Check the declared size before reading the body into memory
+    const contentLength = req.headers.get("content-length");
+    if (contentLength === null || !/^\d+$/.test(contentLength)) {
+      return NextResponse.json({ error: "Content-Length is required" }, { status: 411 });
+    }
+    if (Number(contentLength) > session.chunkSize) {
+      return NextResponse.json(
+        { error: `Chunks can be at most ${session.chunkSize} bytes` },
+        { status: 413 }
+      );
+    }
+
+    const data = new Uint8Array(await req.arrayBuffer());
+    const result = await saveUploadChunk(session, Number(index), data);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, index: Number(index) });
+  } catch (error) {
+    console.error("Error saving upload chunk:", error);
+    return NextResponse.json(
+      { error: "Failed to save chunk" },
+      { status: 500 }
+    );
+  }
+}
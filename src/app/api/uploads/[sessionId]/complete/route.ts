@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { completeUploadSession, getOwnedUploadSession } from "@/lib/upload-sessions";
+import { getUploadPlan } from "@/lib/users";
+
+/**
+ * POST /api/uploads/[sessionId]/complete
+ * Assemble a fully received upload into a file
+ * 409 with `missingChunks` if chunks are still missing, 202 while another
+ * request is still assembling it, 403 if the account is now scheduled for deletion
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const session = await getOwnedUploadSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    // Started before the account was scheduled for deletion
+    const uploadPlan = await getUploadPlan(session.userId);
+    if (!uploadPlan.success) {
+      return NextResponse.json({ error: uploadPlan.error }, { status: uploadPlan.status });
+    }
+
+    const result = await completeUploadSession(session);
+
+    if (result.status === "incomplete") {
+      return NextResponse.json(
+        { error: "Upload is missing chunks", missingChunks: result.missingChunks },
+        { status: 409 }
+      );
+    }
+
+    if (result.status === "assembling") {
+      return NextResponse.json({ assembling: true }, { status: 202 });
+    }
+
+    return NextResponse.json({ success: true, fileId: result.fileId });
+  } catch (error) {
+    console.error("Error completing upload:", error);
+    return NextResponse.json(
+      { error: "Failed to complete upload" },
+      { status: 500 }
+    );
+  }
+}
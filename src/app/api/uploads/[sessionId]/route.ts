@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { cancelUploadSession, getOwnedUploadSession, getReceivedChunks } from "@/lib/upload-sessions";
+
+/**
+ * GET /api/uploads/[sessionId]
+ * Which chunks the server already has, so an interrupted upload can resume
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const session = await getOwnedUploadSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      sessionId: session.id,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      receivedChunks: await getReceivedChunks(session.id),
+      fileId: session.fileId,
+      expiresAt: session.expiresAt,
+    });
+  } catch (error) {
+    console.error("Error fetching upload:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch upload" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/uploads/[sessionId]
+ * Cancel an unfinished upload and discard its chunks
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const session = await getOwnedUploadSession(sessionId);
+
+    if (!session) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    await cancelUploadSession(session);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error cancelling upload:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel upload" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { headers } from "next/headers";
+import { checkRateLimit, getRateLimitKey } from "@/lib/rate-limit";
+import { getGuestId } from "@/lib/guest-id";
+import { rateLimitErrorBody, validateFileSize } from "@/lib/upload-limits";
+import { rateLimitHeaders } from "@/lib/rate-limit-response";
+import { createUploadSession, deleteUploadSessions } from "@/lib/upload-sessions";
+import { resolveExpiryHours } from "@/lib/expiry";
+import { reserveStorageQuota } from "@/lib/storage-quota";
+import { getUploadPlan } from "@/lib/users";
+import { createUploadSessionSchema, parseJsonBody } from "@/lib/validation";
+
+/**
+ * POST /api/uploads
+ * Start a resumable upload. The file is then sent in `chunkSize` pieces to
+ * PUT /api/uploads/[sessionId]/chunks/[index] and finished with
+ * POST /api/uploads/[sessionId]/complete
+ * The same size, storage quota and rate limits apply as for regular uploads;
+ * the RateLimit headers report the caller's daily upload count
+ */
+export async function POST(req: Request) {
+  try {
+    const parsed = await parseJsonBody(req, createUploadSessionSchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { userId } = await auth();
+    const headersList = await headers();
+    const ip = headersList.get("x-forwarded-for")?.split(",")[0] ||
+               headersList.get("x-real-ip") ||
+               "unknown";
+
+    const isGuest = !userId;
+
+    const guestId = isGuest ? await getGuestId() : null;
+    if (isGuest && !guestId) {
+      return NextResponse.json(
+        { error: "Your guest session is missing or invalid. Please refresh the page and try again." },
+        { status: 401 }
+      );
+    }
+
+    const uploadPlan = await getUploadPlan(userId || null);
+    if (!uploadPlan.success) {
+      return NextResponse.json({ error: uploadPlan.error }, { status: uploadPlan.status });
+    }
+    const plan = uploadPlan.plan;
+
+    const { expiresIn, ...upload } = parsed.data;
+    const expiry = resolveExpiryHours(expiresIn, plan);
+    if (!expiry.success) {
+      return NextResponse.json({ error: expiry.error }, { status: 403 });
+    }
+
+    const sizeValidation = validateFileSize(parsed.data, plan);
+    if (!sizeValidation.valid) {
+      return NextResponse.json({ error: sizeValidation.error }, { status: 413 });
+    }
+
+    const rateLimitKey = getRateLimitKey(userId || null, ip);
+
+    // The session holds its bytes in the storage quota until it completes or expires
+    const reserved = await reserveStorageQuota({ userId: userId || null, guestId }, plan, parsed.data.size, (tx) =>
+      createUploadSession({
+        ...upload,
+        expiryHours: expiry.hours,
+        userId: userId || null,
+        guestId,
+        rateLimitKey,
+      }, tx)
+    );
+    if (!reserved.success) {
+      return NextResponse.json({ error: reserved.error }, { status: 413 });
+    }
+    const session = reserved.reserved;
+
+    const rateLimitResult = await checkRateLimit(rateLimitKey, parsed.data.size, plan);
+
+    if (!rateLimitResult.success) {
+      await deleteUploadSessions({ id: session.id });
+      const body = rateLimitErrorBody(rateLimitResult, plan);
+      return NextResponse.json(body, { status: 429, headers: rateLimitHeaders(body) });
+    }
+
+    return NextResponse.json({
+      sessionId: session.id,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      receivedChunks: [],
+      expiresAt: session.expiresAt,
+    }, { headers: rateLimitHeaders(rateLimitResult) });
+  } catch (error) {
+    console.error("Error starting upload:", error);
+    return NextResponse.json(
+      { error: "Failed to start upload" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,164 +1,151 @@
 import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { UploadThingError } from "uploadthing/server";
 import { auth } from "@clerk/nextjs/server";
-import { cookies, headers } from "next/headers";
-import { checkRateLimit, getRateLimitKey, formatBytes } from "@/lib/rate-limit";
-
-const f = createUploadthing();
-
-// File size limits in bytes for validation
-// Guest: 16MB max per file | Auth: 64MB max per file
-const FILE_SIZE_LIMITS = {
-  guest: {
-    image: 16 * 1024 * 1024,   // 16MB
-    pdf: 16 * 1024 * 1024,     // 16MB
-    text: 16 * 1024 * 1024,    // 16MB
-    blob: 16 * 1024 * 1024,    // 16MB
-    video: 16 * 1024 * 1024,   // 16MB
-    audio: 16 * 1024 * 1024,   // 16MB
-  },
-  auth: {
-    image: 64 * 1024 * 1024,   // 64MB
-    pdf: 64 * 1024 * 1024,     // 64MB
-    text: 64 * 1024 * 1024,    // 64MB
-    blob: 64 * 1024 * 1024,    // 64MB
-    video: 64 * 1024 * 1024,   // 64MB
-    audio: 64 * 1024 * 1024,   // 64MB
-  },
-};
-
-// File count limits
-// Guest: 2 files max | Auth: 8 files max
-const FILE_COUNT_LIMITS = {
-  guest: 2,
-  auth: 8,
-};
+import { headers } from "next/headers";
+import { checkRateLimit, getRateLimitKey } from "@/lib/rate-limit";
+import { rateLimitErrorBody, validateFileCount, validateFileSize } from "@/lib/upload-limits";
+import { isRateLimitErrorBody } from "@/lib/rate-limit-response";
+import { recordUploadRateLimit } from "@/lib/upload-rate-limit-headers";
+import { getGuestId } from "@/lib/guest-id";
+import { createFileRecord } from "@/lib/files";
+import { resolveExpiryHours } from "@/lib/expiry";
+import { ACCOUNT_PLAN_IDS, PLANS } from "@/lib/plans";
+import { createStorageReservation, releaseStorageReservation } from "@/lib/storage-quota";
+import { getUploadPlan } from "@/lib/users";
+import { uploadOptionsSchema } from "@/lib/validation";
 
-/**
- * Validate file size based on type and user status
- */
-function validateFileSize(
-  file: { name: string; size: number; type: string },
-  isGuest: boolean
-): { valid: boolean; error?: string; limit: number } {
-  const limits = isGuest ? FILE_SIZE_LIMITS.guest : FILE_SIZE_LIMITS.auth;
-  const fileType = file.type.split("/")[0] as keyof typeof limits;
-  
-  // Default to blob limit if type not found
-  const limit = limits[fileType] || limits.blob;
-  
-  if (file.size > limit) {
-    return {
-      valid: false,
-      error: `File "${file.name}" (${formatBytes(file.size)}) exceeds the ${formatBytes(limit)} limit for ${isGuest ? "guest" : "authenticated"} users.`,
-      limit,
-    };
-  }
-  
-  return { valid: true, limit };
-}
+const f = createUploadthing({
+  // Rate limit details travel in the error body; route.ts turns them into a 429
+  errorFormatter: (err) => ({
+    message: err.message,
+    rateLimit: isRateLimitErrorBody(err.data) ? err.data : null,
+  }),
+});
+
+type RouteFileSize = NonNullable<Extract<Parameters<typeof f>[0], { blob?: unknown }>["blob"]>["maxFileSize"];
 
 /**
- * Validate file count
+ * UploadThing route limits. Plan file sizes are whole power-of-two
+ * megabytes, the only sizes UploadThing routes accept.
  */
-function validateFileCount(files: ReadonlyArray<{ name: string; size: number; type: string }>, isGuest: boolean): { valid: boolean; error?: string } {
-  const limit = isGuest ? FILE_COUNT_LIMITS.guest : FILE_COUNT_LIMITS.auth;
-  
-  if (files.length > limit) {
-    return {
-      valid: false,
-      error: `Too many files! Maximum ${limit} files allowed for ${isGuest ? "guest" : "authenticated"} users. You tried to upload ${files.length} files.`,
-    };
-  }
-  
-  return { valid: true };
+function routeLimits(maxFileSize: number, maxFileCount: number) {
+  return {
+    maxFileSize: `${maxFileSize / (1024 * 1024)}MB` as RouteFileSize,
+    maxFileCount,
+  };
 }
 
+// Routes for signed-in users must allow the largest account plan;
+// the middleware then enforces the user's own plan
+const accountPlans = ACCOUNT_PLAN_IDS.map((id) => PLANS[id]);
+const accountRouteLimits = routeLimits(
+  Math.max(...accountPlans.map((plan) => plan.maxFileSize)),
+  Math.max(...accountPlans.map((plan) => plan.maxFilesPerUpload))
+);
+const guestRouteLimits = routeLimits(PLANS.guest.maxFileSize, PLANS.guest.maxFilesPerUpload);
+
 // FileRouter for your app, can be named anything
 export const ourFileRouter = {
-  // Guest uploader - 16MB max per file, 2 files max
+  // Guest uploader - limits of the guest plan
   guestUploader: f({
-    image: { maxFileSize: "16MB", maxFileCount: 2 },
-    pdf: { maxFileSize: "16MB", maxFileCount: 2 },
-    text: { maxFileSize: "16MB", maxFileCount: 2 },
-    blob: { maxFileSize: "16MB", maxFileCount: 2 },
-    video: { maxFileSize: "16MB", maxFileCount: 2 },
-    audio: { maxFileSize: "16MB", maxFileCount: 2 },
+    image: guestRouteLimits,
+    pdf: guestRouteLimits,
+    text: guestRouteLimits,
+    blob: guestRouteLimits,
+    video: guestRouteLimits,
+    audio: guestRouteLimits,
   })
-    .middleware(async ({ req, files }) => {
-      const cookieStore = await cookies();
+    .input(uploadOptionsSchema)
+    .middleware(async ({ files, input }) => {
       const headersList = await headers();
       const ip = headersList.get("x-forwarded-for")?.split(",")[0] ||
                  headersList.get("x-real-ip") ||
                  "unknown";
 
-      // Get guest ID from cookie
-      let guestId = cookieStore.get("guestId")?.value;
+      // Guest uploads are tied to the signed guest ID cookie set by the middleware
+      const guestId = await getGuestId();
       if (!guestId) {
-        // Generate a unique guest ID based on IP and timestamp
-        guestId = `guest_${ip}_${Date.now()}`;
+        throw new UploadThingError("Your guest session is missing or invalid. Please refresh the page and try again.");
+      }
+
+      const plan = PLANS.guest;
+
+      // Validate the chosen expiry
+      const expiry = resolveExpiryHours(input.expiresIn, plan);
+      if (!expiry.success) {
+        throw new UploadThingError(expiry.error);
       }
 
       // Validate file count
-      const countValidation = validateFileCount(files, true);
+      const countValidation = validateFileCount(files, plan);
       if (!countValidation.valid) {
         throw new UploadThingError(countValidation.error!);
       }
 
       // Validate each file size
       for (const file of files) {
-        const sizeValidation = validateFileSize(file, true);
+        const sizeValidation = validateFileSize(file, plan);
         if (!sizeValidation.valid) {
           throw new UploadThingError(sizeValidation.error!);
         }
       }
 
-      // Calculate total size for rate limiting
+      // Calculate total size for the storage quota and rate limit
       const totalSize = files.reduce((sum, file) => sum + file.size, 0);
 
+      // Reserve the bytes in the storage quota until the files are recorded
+      const reservation = await createStorageReservation({ userId: null, guestId }, plan, totalSize);
+      if (!reservation.success) {
+        throw new UploadThingError(reservation.error);
+      }
+
       // Check rate limit
       const key = getRateLimitKey(null, ip);
-      const rateLimitResult = checkRateLimit(key, totalSize, false);
+      const rateLimitResult = await checkRateLimit(key, totalSize, plan);
 
       if (!rateLimitResult.success) {
-        if (rateLimitResult.reason === 'rate_limit_requests') {
-          throw new UploadThingError(
-            `Rate limit exceeded! You've reached the maximum number of uploads (10 per day). Limit resets in ${Math.ceil(rateLimitResult.retryAfter! / (60 * 60))} hours.`
-          );
-        } else if (rateLimitResult.reason === 'rate_limit_bytes') {
-          throw new UploadThingError(
-            `Storage limit exceeded! You've used ${formatBytes(rateLimitResult.totalBytes)} out of 32MB daily limit (2 files × 16MB). Remaining: ${formatBytes(rateLimitResult.remainingBytes)}. Limit resets in ${Math.ceil(rateLimitResult.retryAfter! / (60 * 60))} hours.`
-          );
-        }
+        const body = rateLimitErrorBody(rateLimitResult, plan);
+        await releaseStorageReservation(reservation.reservationId);
+        throw new UploadThingError({ code: "FORBIDDEN", message: body.error, data: body });
       }
+      recordUploadRateLimit(rateLimitResult);
 
       // Guest uploads are allowed without authentication
       return {
         userId: "guest",
         isGuest: true,
         guestId, // Pass guest ID for tracking
-        rateLimit: {
-          remaining: rateLimitResult.remaining,
-          remainingBytes: rateLimitResult.remainingBytes,
-          totalBytes: rateLimitResult.totalBytes,
-        },
+        maxDownloads: input.maxDownloads,
+        visibility: input.visibility,
+        expiryHours: expiry.hours,
+        reservationId: reservation.reservationId,
       };
     })
     .onUploadComplete(async ({ metadata, file }) => {
-      console.log("Guest upload complete:", file.url);
-      return {
-        uploadedBy: metadata.userId,
-        url: file.url,
-        key: `${metadata.guestId}_guest_${file.key}`, // Prefix key with guest ID
-        isGuest: true,
+      console.log("Guest upload complete:", file.ufsUrl);
+
+      const record = await createFileRecord({
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        storageProvider: "uploadthing",
+        key: file.key,
+        userId: null,
         guestId: metadata.guestId,
-        rateLimit: metadata.rateLimit,
-      };
+        maxDownloads: metadata.maxDownloads,
+        visibility: metadata.visibility,
+        expiryHours: metadata.expiryHours,
+      });
+      await releaseStorageReservation(metadata.reservationId, file.size);
+
+      // Only the file ID goes back to the client
+      return { fileId: record.id };
     }),
 
-  // Image uploader for authenticated users - 64MB max, 8 files
-  imageUploader: f({ image: { maxFileSize: "64MB", maxFileCount: 8 } })
-    .middleware(async ({ req, files }) => {
+  // Image uploader for authenticated users - limits of their plan
+  imageUploader: f({ image: accountRouteLimits })
+    .input(uploadOptionsSchema)
+    .middleware(async ({ files, input }) => {
       const { userId } = await auth();
       const headersList = await headers();
       const ip = headersList.get("x-forwarded-for")?.split(",")[0] || 
@@ -170,71 +157,93 @@ export const ourFileRouter = {
         throw new UploadThingError("Please sign in for higher limits");
       }
 
+      const uploadPlan = await getUploadPlan(userId);
+      if (!uploadPlan.success) {
+        throw new UploadThingError({ code: "FORBIDDEN", message: uploadPlan.error });
+      }
+      const plan = uploadPlan.plan;
+
+      // Validate the chosen expiry
+      const expiry = resolveExpiryHours(input.expiresIn, plan);
+      if (!expiry.success) {
+        throw new UploadThingError(expiry.error);
+      }
+
       // Validate file count
-      const countValidation = validateFileCount(files, false);
+      const countValidation = validateFileCount(files, plan);
       if (!countValidation.valid) {
         throw new UploadThingError(countValidation.error!);
       }
       
       // Validate each file size
       for (const file of files) {
-        const sizeValidation = validateFileSize(file, false);
+        const sizeValidation = validateFileSize(file, plan);
         if (!sizeValidation.valid) {
           throw new UploadThingError(sizeValidation.error!);
         }
       }
       
-      // Calculate total size for rate limiting
+      // Calculate total size for the storage quota and rate limit
       const totalSize = files.reduce((sum, file) => sum + file.size, 0);
       
+      // Reserve the bytes in the storage quota until the files are recorded
+      const reservation = await createStorageReservation({ userId, guestId: null }, plan, totalSize);
+      if (!reservation.success) {
+        throw new UploadThingError(reservation.error);
+      }
+
       // Check rate limit
       const key = getRateLimitKey(userId, ip);
-      const rateLimitResult = checkRateLimit(key, totalSize, true);
+      const rateLimitResult = await checkRateLimit(key, totalSize, plan);
       
       if (!rateLimitResult.success) {
-        if (rateLimitResult.reason === 'rate_limit_requests') {
-          throw new UploadThingError(
-            `Rate limit exceeded! You've reached the maximum number of uploads (100 per day). Limit resets in ${Math.ceil(rateLimitResult.retryAfter! / (60 * 60))} hours.`
-          );
-        } else if (rateLimitResult.reason === 'rate_limit_bytes') {
-          throw new UploadThingError(
-            `Storage limit exceeded! You've used ${formatBytes(rateLimitResult.totalBytes)} out of 512MB daily limit (8 files × 64MB). Remaining: ${formatBytes(rateLimitResult.remainingBytes)}. Limit resets in ${Math.ceil(rateLimitResult.retryAfter! / (60 * 60))} hours.`
-          );
-        }
+        const body = rateLimitErrorBody(rateLimitResult, plan);
+        await releaseStorageReservation(reservation.reservationId);
+        throw new UploadThingError({ code: "FORBIDDEN", message: body.error, data: body });
       }
+      recordUploadRateLimit(rateLimitResult);
 
       return { 
         userId, 
         isGuest: false,
-        rateLimit: {
-          remaining: rateLimitResult.remaining,
-          remainingBytes: rateLimitResult.remainingBytes,
-          totalBytes: rateLimitResult.totalBytes,
-        },
+        maxDownloads: input.maxDownloads,
+        visibility: input.visibility,
+        expiryHours: expiry.hours,
+        reservationId: reservation.reservationId,
       };
     })
     .onUploadComplete(async ({ metadata, file }) => {
       console.log("Upload complete for userId:", metadata.userId);
-      console.log("file url", file.url);
+      console.log("file url", file.ufsUrl);
 
-      return {
-        uploadedBy: metadata.userId,
-        url: file.url,
+      const record = await createFileRecord({
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        storageProvider: "uploadthing",
         key: file.key,
-        isGuest: false,
-        rateLimit: metadata.rateLimit,
-      };
+        userId: metadata.userId,
+        guestId: null,
+        maxDownloads: metadata.maxDownloads,
+        visibility: metadata.visibility,
+        expiryHours: metadata.expiryHours,
+      });
+      await releaseStorageReservation(metadata.reservationId, file.size);
+
+      // Only the file ID goes back to the client
+      return { fileId: record.id };
     }),
 
-  // General file uploader for authenticated users - 64MB max, 8 files
+  // General file uploader - limits of the caller's plan (guest when signed out)
   fileUploader: f({
-    pdf: { maxFileSize: "64MB", maxFileCount: 8 },
-    text: { maxFileSize: "64MB", maxFileCount: 8 },
-    blob: { maxFileSize: "64MB", maxFileCount: 8 },
-    video: { maxFileSize: "64MB", maxFileCount: 8 },
-    audio: { maxFileSize: "64MB", maxFileCount: 8 },
+    pdf: accountRouteLimits,
+    text: accountRouteLimits,
+    blob: accountRouteLimits,
+    video: accountRouteLimits,
+    audio: accountRouteLimits,
   })
-    .middleware(async ({ req, files }) => {
+    .input(uploadOptionsSchema)
+    .middleware(async ({ files, input }) => {
       const { userId } = await auth();
       const headersList = await headers();
       const ip = headersList.get("x-forwarded-for")?.split(",")[0] || 
@@ -243,61 +252,88 @@ export const ourFileRouter = {
 
       const isGuest = !userId;
 
+      const guestId = isGuest ? await getGuestId() : null;
+      if (isGuest && !guestId) {
+        throw new UploadThingError("Your guest session is missing or invalid. Please refresh the page and try again.");
+      }
+
+      const uploadPlan = await getUploadPlan(userId || null);
+      if (!uploadPlan.success) {
+        throw new UploadThingError({ code: "FORBIDDEN", message: uploadPlan.error });
+      }
+      const plan = uploadPlan.plan;
+
+      // Validate the chosen expiry
+      const expiry = resolveExpiryHours(input.expiresIn, plan);
+      if (!expiry.success) {
+        throw new UploadThingError(expiry.error);
+      }
+
       // Validate file count
-      const countValidation = validateFileCount(files, isGuest);
+      const countValidation = validateFileCount(files, plan);
       if (!countValidation.valid) {
         throw new UploadThingError(countValidation.error!);
       }
       
       // Validate each file size
       for (const file of files) {
-        const sizeValidation = validateFileSize(file, isGuest);
+        const sizeValidation = validateFileSize(file, plan);
         if (!sizeValidation.valid) {
           throw new UploadThingError(sizeValidation.error!);
         }
       }
       
-      // Calculate total size for rate limiting
+      // Calculate total size for the storage quota and rate limit
       const totalSize = files.reduce((sum, file) => sum + file.size, 0);
       
+      // Reserve the bytes in the storage quota until the files are recorded
+      const reservation = await createStorageReservation({ userId: userId || null, guestId }, plan, totalSize);
+      if (!reservation.success) {
+        throw new UploadThingError(reservation.error);
+      }
+
       // Check rate limit
       const key = getRateLimitKey(userId || null, ip);
-      const rateLimitResult = checkRateLimit(key, totalSize, !isGuest);
+      const rateLimitResult = await checkRateLimit(key, totalSize, plan);
       
       if (!rateLimitResult.success) {
-        if (rateLimitResult.reason === 'rate_limit_requests') {
-          throw new UploadThingError(
-            `Rate limit exceeded! You've reached the maximum number of uploads (${isGuest ? '10' : '100'} per day). Limit resets in ${Math.ceil(rateLimitResult.retryAfter! / (60 * 60))} hours.`
-          );
-        } else if (rateLimitResult.reason === 'rate_limit_bytes') {
-          throw new UploadThingError(
-            `Storage limit exceeded! You've used ${formatBytes(rateLimitResult.totalBytes)} out of ${isGuest ? '32MB (2 files × 16MB)' : '512MB (8 files × 64MB)'} daily limit. Remaining: ${formatBytes(rateLimitResult.remainingBytes)}. Limit resets in ${Math.ceil(rateLimitResult.retryAfter! / (60 * 60))} hours.`
-          );
-        }
+        const body = rateLimitErrorBody(rateLimitResult, plan);
+        await releaseStorageReservation(reservation.reservationId);
+        throw new UploadThingError({ code: "FORBIDDEN", message: body.error, data: body });
       }
+      recordUploadRateLimit(rateLimitResult);
 
       // Allow guest uploads with limited permissions
       return { 
         userId: userId || "guest", 
         isGuest,
-        rateLimit: {
-          remaining: rateLimitResult.remaining,
-          remainingBytes: rateLimitResult.remainingBytes,
-          totalBytes: rateLimitResult.totalBytes,
-        },
+        guestId,
+        maxDownloads: input.maxDownloads,
+        visibility: input.visibility,
+        expiryHours: expiry.hours,
+        reservationId: reservation.reservationId,
       };
     })
     .onUploadComplete(async ({ metadata, file }) => {
       console.log("Upload complete for userId:", metadata.userId);
-      console.log("file url", file.url);
+      console.log("file url", file.ufsUrl);
 
-      return {
-        uploadedBy: metadata.userId,
-        url: file.url,
+      const record = await createFileRecord({
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        storageProvider: "uploadthing",
         key: file.key,
-        isGuest: metadata.isGuest,
-        rateLimit: metadata.rateLimit,
-      };
+        userId: metadata.isGuest ? null : metadata.userId,
+        guestId: metadata.guestId,
+        maxDownloads: metadata.maxDownloads,
+        visibility: metadata.visibility,
+        expiryHours: metadata.expiryHours,
+      });
+      await releaseStorageReservation(metadata.reservationId, file.size);
+
+      // Only the file ID goes back to the client
+      return { fileId: record.id };
     }),
 } satisfies FileRouter;
 
@@ -1,8 +1,32 @@
 import { createRouteHandler } from "uploadthing/next";
+import { NextResponse, type NextRequest } from "next/server";
+import { isRateLimitErrorBody, rateLimitHeaders } from "@/lib/rate-limit-response";
+import { withUploadRateLimitHeaders } from "@/lib/upload-rate-limit-headers";
 
 import { ourFileRouter } from "./core";
 
 // Export routes for Next App Router
-export const { GET, POST } = createRouteHandler({
+const handlers = createRouteHandler({
   router: ourFileRouter,
 });
+
+export const GET = handlers.GET;
+
+/**
+ * UploadThing can't answer with a 429 itself, so rate limit errors from the
+ * middleware are re-sent with the status and RateLimit headers other routes use.
+ * Allowed uploads get the RateLimit headers too.
+ */
+export async function POST(req: NextRequest) {
+  const response = await withUploadRateLimitHeaders(() => handlers.POST(req));
+  if (response.ok) {
+    return response;
+  }
+
+  const body = await response.clone().json().catch(() => null);
+  if (!isRateLimitErrorBody(body?.rateLimit)) {
+    return response;
+  }
+
+  return NextResponse.json(body, { status: 429, headers: rateLimitHeaders(body.rateLimit) });
+}
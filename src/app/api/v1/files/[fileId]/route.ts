@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { withAccessToken } from "@/lib/access-tokens";
+import { toApiFile } from "@/lib/api-v1";
+import { changeFileExpiry } from "@/lib/expiry";
+import { getStorageProvider } from "@/lib/storage";
+import { getUserPlan } from "@/lib/users";
+import { parseJsonBody, setExpirySchema } from "@/lib/validation";
+
+type FileRouteContext = { params: Promise<{ fileId: string }> };
+
+/**
+ * Load a file owned by the token owner. Other people's files are reported
+ * as not found, so tokens can't be used to probe for file IDs.
+ */
+async function findOwnedFile(fileId: string, userId: string) {
+  const file = await prisma.file.findUnique({ where: { id: fileId } });
+  return file && file.userId === userId ? file : null;
+}
+
+/**
+ * GET /api/v1/files/[fileId]
+ * Metadata of one of the token owner's files.
+ * Requires the "read" scope.
+ */
+export const GET = withAccessToken("read", "read", async (req, { params }: FileRouteContext, caller) => {
+  try {
+    const { fileId } = await params;
+    const file = await findOwnedFile(fileId, caller.userId);
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toApiFile(file, new URL(req.url).origin));
+  } catch (error) {
+    console.error("Error fetching API file:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch file" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PATCH /api/v1/files/[fileId]
+ * Set the file to expire `expiresIn` from now (body: `{ expiresIn }`),
+ * within the owner's plan, like the expiry dialog in the app.
+ * Requires the "upload" scope.
+ */
+export const PATCH = withAccessToken("upload", null, async (req, { params }: FileRouteContext, caller) => {
+  try {
+    const { fileId } = await params;
+    const parsed = await parseJsonBody(req, setExpirySchema);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const file = await findOwnedFile(fileId, caller.userId);
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const result = await changeFileExpiry(file, parsed.data.expiresIn, await getUserPlan(caller.userId), {
+      userId: caller.userId,
+      guestId: null,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(toApiFile({ ...file, expiresAt: result.expiresAt }, new URL(req.url).origin));
+  } catch (error) {
+    console.error("Error updating API file expiry:", error);
+    return NextResponse.json(
+      { error: "Failed to update expiry" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/v1/files/[fileId]
+ * Delete one of the token owner's files from storage and the database.
+ * Requires the "delete" scope.
+ */
+export const DELETE = withAccessToken("delete", null, async (req, { params }: FileRouteContext, caller) => {
+  try {
+    const { fileId } = await params;
+    const file = await findOwnedFile(fileId, caller.userId);
+
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    try {
+      const storage = await getStorageProvider(file.storageProvider);
+      await storage.delete(file.storageKey);
+    } catch (storageError) {
+      console.error("Error deleting from storage:", storageError);
+      // Continue with database deletion even if storage fails
+    }
+
+    // Deleting the row frees its storage quota; the daily upload limit is not given back
+    await prisma.file.delete({
+      where: { id: fileId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting API file:", error);
+    return NextResponse.json(
+      { error: "Failed to delete file" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,186 @@
+import { NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/db";
+import { withAccessToken } from "@/lib/access-tokens";
+import { toApiFile } from "@/lib/api-v1";
+import { resolveExpiryHours } from "@/lib/expiry";
+import { createFileRecord } from "@/lib/files";
+import { checkRateLimit, getRateLimitKey, releaseRateLimit } from "@/lib/rate-limit";
+import { rateLimitHeaders } from "@/lib/rate-limit-response";
+import { getStorageProvider } from "@/lib/storage";
+import { createStorageReservation, releaseStorageReservation } from "@/lib/storage-quota";
+import { rateLimitErrorBody, validateFileSize } from "@/lib/upload-limits";
+import { getUploadPlan } from "@/lib/users";
+import { apiFilesQuerySchema, apiUploadFieldsSchema, formatValidationError } from "@/lib/validation";
+
+// Room for the multipart boundaries and fields around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * GET /api/v1/files
+ * The token owner's files, newest first.
+ * Query: `limit` (1-100, default 50), `cursor` (`nextCursor` of the previous page).
+ * Requires the "read" scope.
+ */
+export const GET = withAccessToken("read", "list", async (req, context, caller) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const query = apiFilesQuerySchema.safeParse({
+      limit: searchParams.get("limit") ?? undefined,
+      cursor: searchParams.get("cursor") ?? undefined,
+    });
+
+    if (!query.success) {
+      return NextResponse.json({ error: formatValidationError(query.error) }, { status: 400 });
+    }
+
+    const { limit, cursor } = query.data;
+
+    // Same files as the dashboard: uploads made while signed in
+    const files = await prisma.file.findMany({
+      where: { userId: caller.userId, isGuest: false },
+      orderBy: [{ uploadDate: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const page = files.slice(0, limit);
+    const origin = new URL(req.url).origin;
+
+    return NextResponse.json({
+      files: page.map((file) => toApiFile(file, origin)),
+      nextCursor: files.length > limit ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error("Error listing API files:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch files" },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/v1/files
+ * Upload a file as `multipart/form-data`: the bytes in a `file` field, plus
+ * optional `maxDownloads`, `visibility` and `expiresIn` fields.
+ * The same size, storage quota and daily upload limits apply as in the app;
+ * the whole file is sent in one request, so the host's body size limit applies too.
+ * Requires the "upload" scope.
+ */
+export const POST = withAccessToken("upload", null, async (req, context, caller) => {
+  try {
+    const uploadPlan = await getUploadPlan(caller.userId);
+    if (!uploadPlan.success) {
+      return NextResponse.json({ error: uploadPlan.error }, { status: uploadPlan.status });
+    }
+    const plan = uploadPlan.plan;
+
+    // Refuse oversized bodies before reading them
+    const contentLength = Number(req.headers.get("content-length"));
+    if (contentLength > plan.maxFileSize + MULTIPART_OVERHEAD_BYTES) {
+      return NextResponse.json(
+        { error: `Files are limited to ${Math.floor(plan.maxFileSize / (1024 * 1024))}MB on the ${plan.name} plan.` },
+        { status: 413 }
+      );
+    }
+
+    const form = await req.formData().catch(() => null);
+    const file = form?.get("file");
+
+    if (!form || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: "Send the file as multipart/form-data in a `file` field" },
+        { status: 400 }
+      );
+    }
+
+    const fields = apiUploadFieldsSchema.safeParse({
+      maxDownloads: form.get("maxDownloads") ?? undefined,
+      visibility: form.get("visibility") ?? undefined,
+      expiresIn: form.get("expiresIn") ?? undefined,
+    });
+
+    if (!fields.success) {
+      return NextResponse.json({ error: formatValidationError(fields.error) }, { status: 400 });
+    }
+
+    const name = file.name.trim();
+    if (!name || name.length > 255) {
+      return NextResponse.json({ error: "File names must be 1 to 255 characters long" }, { status: 400 });
+    }
+
+    if (file.size === 0) {
+      return NextResponse.json({ error: "File is empty" }, { status: 400 });
+    }
+
+    const expiry = resolveExpiryHours(fields.data.expiresIn, plan);
+    if (!expiry.success) {
+      return NextResponse.json({ error: expiry.error }, { status: 403 });
+    }
+
+    const sizeValidation = validateFileSize({ name, size: file.size, type: file.type }, plan);
+    if (!sizeValidation.valid) {
+      return NextResponse.json({ error: sizeValidation.error }, { status: 413 });
+    }
+
+    const reservation = await createStorageReservation({ userId: caller.userId, guestId: null }, plan, file.size);
+    if (!reservation.success) {
+      return NextResponse.json({ error: reservation.error }, { status: 413 });
+    }
+
+    // Released once the File row counts the bytes, or when the upload fails
+    try {
+      const headersList = await headers();
+      const ip = headersList.get("x-forwarded-for")?.split(",")[0] ||
+                 headersList.get("x-real-ip") ||
+                 "unknown";
+
+      // Shares the daily limit with uploads from the app
+      const rateLimitKey = getRateLimitKey(caller.userId, ip);
+      const rateLimitResult = await checkRateLimit(rateLimitKey, file.size, plan);
+
+      if (!rateLimitResult.success) {
+        const body = rateLimitErrorBody(rateLimitResult, plan);
+        return NextResponse.json(body, { status: 429, headers: rateLimitHeaders(body) });
+      }
+
+      let stored: { key: string; size: number };
+      const storage = await getStorageProvider();
+      try {
+        stored = await storage.put({ name, type: file.type, data: file });
+      } catch (storageError) {
+        console.error("Error storing API upload:", storageError);
+        // The upload never happened, so it doesn't count
+        await releaseRateLimit(rateLimitKey, file.size);
+        return NextResponse.json({ error: "Failed to store file" }, { status: 502 });
+      }
+
+      const record = await createFileRecord({
+        name,
+        size: stored.size,
+        type: file.type,
+        storageProvider: storage.name,
+        key: stored.key,
+        userId: caller.userId,
+        guestId: null,
+        maxDownloads: fields.data.maxDownloads,
+        visibility: fields.data.visibility,
+        expiryHours: expiry.hours,
+      });
+
+      return NextResponse.json(toApiFile(record, new URL(req.url).origin), {
+        status: 201,
+        headers: rateLimitHeaders(rateLimitResult),
+      });
+    } finally {
+      await releaseStorageReservation(reservation.reservationId);
+    }
+  } catch (error) {
+    console.error("Error uploading API file:", error);
+    return NextResponse.json(
+      { error: "Failed to upload file" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,264 @@
+import { createHmac, randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runAccountDeletion } from '@/lib/account-deletion';
+import { POST } from './route';
+
+interface FakeUser {
+  id: string;
+  email: string | null;
+  name: string | null;
+  clerkUpdatedAt: Date | null;
+}
+
+interface FakeDeletion {
+  id: string;
+  userId: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  deleteFromClerk: boolean;
+}
+
+// Just enough of the Prisma client for the webhook handlers
+const db = vi.hoisted(() => {
+  const users = new Map<string, FakeUser>();
+  const events = new Set<string>();
+  const deletions = new Map<string, FakeDeletion>();
+
+  const prisma = {
+    clerkWebhookEvent: {
+      findUnique: async ({ where }: { where: { id: string } }) => (events.has(where.id) ? { id: where.id } : null),
+      createMany: async ({ data }: { data: { id: string }[] }) => {
+        const added = data.filter((event) => !events.has(event.id));
+        added.forEach((event) => events.add(event.id));
+        return { count: added.length };
+      },
+      deleteMany: async () => ({ count: 0 }),
+    },
+    user: {
+      // Only updates a row whose stored profile isn't newer (the OR in applyClerkProfile)
+      updateMany: async ({ where, data }: { where: { id: string }; data: Partial<FakeUser> & { clerkUpdatedAt: Date } }) => {
+        const user = users.get(where.id);
+        if (!user || (user.clerkUpdatedAt && user.clerkUpdatedAt > data.clerkUpdatedAt)) {
+          return { count: 0 };
+        }
+        Object.assign(user, data);
+        return { count: 1 };
+      },
+      createMany: async ({ data }: { data: (Partial<FakeUser> & { id: string })[] }) => {
+        const added = data.filter((user) => !users.has(user.id));
+        added.forEach((user) => users.set(user.id, { email: null, name: null, clerkUpdatedAt: null, ...user }));
+        return { count: added.length };
+      },
+    },
+    accountDeletion: {
+      updateMany: async ({ where, data }: {
+        where: { userId: string; status: { in: FakeDeletion['status'][] } };
+        data: Partial<FakeDeletion>;
+      }) => {
+        const job = deletions.get(where.userId);
+        if (!job || !where.status.in.includes(job.status)) {
+          return { count: 0 };
+        }
+        Object.assign(job, data);
+        return { count: 1 };
+      },
+      upsert: async ({ where, create, update }: {
+        where: { userId: string };
+        create: { userId: string; deleteFromClerk: boolean };
+        update: { deleteFromClerk: boolean };
+      }) => {
+        const existing = deletions.get(where.userId);
+        const job: FakeDeletion = existing
+          ? { ...existing, deleteFromClerk: update.deleteFromClerk }
+          : { id: `job_${create.userId}`, status: 'pending', attempts: 0, ...create };
+        deletions.set(where.userId, job);
+        return job;
+      },
+    },
+  };
+
+  return { users, events, deletions, prisma };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: db.prisma }));
+
+// Work scheduled with after() is collected and run by the test
+const afterResponse = vi.hoisted(() => [] as (() => Promise<void>)[]);
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: (task: () => Promise<void>) => {
+    afterResponse.push(task);
+  },
+}));
+
+// Purging files is covered by the job itself; here it only has to be started
+vi.mock('@/lib/account-deletion', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/account-deletion')>()),
+  runAccountDeletion: vi.fn(async (jobId: string) => {
+    const job = Array.from(db.deletions.values()).find((deletion) => deletion.id === jobId)!;
+    job.status = 'completed';
+    return job;
+  }),
+}));
+
+const SIGNING_SECRET = `whsec_${Buffer.from('liteshare-test-signing-secret').toString('base64')}`;
+
+function userPayload(type: 'user.created' | 'user.updated', fields: { firstName: string; updatedAt: number }) {
+  return {
+    object: 'event',
+    type,
+    data: {
+      id: 'user_1',
+      email_addresses: [{ id: 'email_1', email_address: 'ada@example.com' }],
+      primary_email_address_id: 'email_1',
+      first_name: fields.firstName,
+      last_name: 'Lovelace',
+      username: null,
+      image_url: 'https://img.example.com/ada.png',
+      updated_at: fields.updatedAt,
+    },
+  };
+}
+
+/**
+ * A webhook request signed the way Svix signs deliveries
+ */
+function signedRequest(
+  payload: unknown,
+  options: { id?: string; secret?: string; headers?: Record<string, string | null> } = {}
+): NextRequest {
+  const id = options.id ?? `msg_${randomUUID()}`;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const body = JSON.stringify(payload);
+  const key = Buffer.from((options.secret ?? SIGNING_SECRET).replace(/^whsec_/, ''), 'base64');
+  const signature = createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64');
+
+  const headers = new Headers({
+    'content-type': 'application/json',
+    'svix-id': id,
+    'svix-timestamp': timestamp,
+    'svix-signature': `v1,${signature}`,
+  });
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    if (value === null) headers.delete(name);
+    else headers.set(name, value);
+  }
+
+  return new NextRequest('http://localhost/api/webhooks/clerk', { method: 'POST', headers, body });
+}
+
+beforeAll(() => {
+  process.env.CLERK_WEBHOOK_SIGNING_SECRET = SIGNING_SECRET;
+});
+
+beforeEach(() => {
+  db.users.clear();
+  db.events.clear();
+  db.deletions.clear();
+  afterResponse.length = 0;
+  vi.mocked(runAccountDeletion).mockClear();
+});
+
+describe('POST /api/webhooks/clerk', () => {
+  it('creates the profile on user.created', async () => {
+    const response = await POST(signedRequest(userPayload('user.created', { firstName: 'Ada', updatedAt: 1000 })));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, result: 'processed' });
+    expect(db.users.get('user_1')).toMatchObject({ email: 'ada@example.com', name: 'Ada Lovelace' });
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const otherSecret = `whsec_${Buffer.from('someone-else').toString('base64')}`;
+    const response = await POST(
+      signedRequest(userPayload('user.created', { firstName: 'Ada', updatedAt: 1000 }), { secret: otherSecret })
+    );
+
+    expect(response.status).toBe(400);
+    expect(db.users.size).toBe(0);
+  });
+
+  it('rejects a request without a signature', async () => {
+    const response = await POST(
+      signedRequest(userPayload('user.created', { firstName: 'Ada', updatedAt: 1000 }), {
+        headers: { 'svix-signature': null },
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect(db.users.size).toBe(0);
+  });
+
+  it('ignores a replayed svix-id', async () => {
+    await POST(signedRequest(userPayload('user.created', { firstName: 'Ada', updatedAt: 1000 }), { id: 'msg_1' }));
+
+    const replay = await POST(
+      signedRequest(userPayload('user.updated', { firstName: 'Grace', updatedAt: 2000 }), { id: 'msg_1' })
+    );
+
+    expect(await replay.json()).toEqual({ success: true, result: 'duplicate' });
+    expect(db.users.get('user_1')?.name).toBe('Ada Lovelace');
+  });
+
+  it('applies a newer user.updated', async () => {
+    await POST(signedRequest(userPayload('user.created', { firstName: 'Ada', updatedAt: 1000 })));
+    await POST(signedRequest(userPayload('user.updated', { firstName: 'Augusta', updatedAt: 2000 })));
+
+    expect(db.users.get('user_1')).toMatchObject({ name: 'Augusta Lovelace', clerkUpdatedAt: new Date(2000) });
+  });
+
+  it('keeps a newer profile when an older user.updated arrives late', async () => {
+    await POST(signedRequest(userPayload('user.updated', { firstName: 'Augusta', updatedAt: 2000 })));
+
+    const late = await POST(signedRequest(userPayload('user.updated', { firstName: 'Ada', updatedAt: 1000 })));
+
+    expect(late.status).toBe(200);
+    expect(db.users.get('user_1')).toMatchObject({ name: 'Augusta Lovelace', clerkUpdatedAt: new Date(2000) });
+  });
+
+  it('queues the deletion job on user.deleted and runs it after responding', async () => {
+    const deleted = { object: 'event', type: 'user.deleted', data: { id: 'user_1', object: 'user', deleted: true } };
+    const response = await POST(signedRequest(deleted, { id: 'msg_deleted' }));
+
+    expect(response.status).toBe(200);
+    expect(db.deletions.get('user_1')).toMatchObject({ status: 'pending', deleteFromClerk: false });
+    expect(runAccountDeletion).not.toHaveBeenCalled();
+
+    await Promise.all(afterResponse.map((task) => task()));
+
+    expect(runAccountDeletion).toHaveBeenCalledWith('job_user_1');
+    expect(db.deletions.get('user_1')?.status).toBe('completed');
+  });
+
+  it('does not run the deletion again for a replayed user.deleted', async () => {
+    const deleted = { object: 'event', type: 'user.deleted', data: { id: 'user_1', object: 'user', deleted: true } };
+    await POST(signedRequest(deleted, { id: 'msg_deleted' }));
+    afterResponse.length = 0;
+
+    const replay = await POST(signedRequest(deleted, { id: 'msg_deleted' }));
+
+    expect(await replay.json()).toEqual({ success: true, result: 'duplicate' });
+    expect(afterResponse).toHaveLength(0);
+  });
+
+  it('restarts a deletion job that had given up on user.deleted', async () => {
+    db.deletions.set('user_1', {
+      id: 'job_user_1',
+      userId: 'user_1',
+      status: 'failed',
+      attempts: 3,
+      deleteFromClerk: true,
+    });
+
+    const deleted = { object: 'event', type: 'user.deleted', data: { id: 'user_1', object: 'user', deleted: true } };
+    await POST(signedRequest(deleted));
+
+    expect(db.deletions.get('user_1')).toMatchObject({ status: 'pending', attempts: 0, deleteFromClerk: false });
+
+    await Promise.all(afterResponse.map((task) => task()));
+
+    expect(runAccountDeletion).toHaveBeenCalledWith('job_user_1');
+    expect(db.deletions.get('user_1')?.status).toBe('completed');
+  });
+});
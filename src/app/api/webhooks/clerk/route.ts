@@ -0,0 +1,47 @@
+import { NextResponse, after, type NextRequest } from "next/server";
+import { verifyWebhook } from "@clerk/nextjs/webhooks";
+import { runAccountDeletion } from "@/lib/account-deletion";
+import { handleClerkWebhook } from "@/lib/clerk-webhooks";
+
+// Account deletions queued by user.deleted run after the response is sent
+export const maxDuration = 60;
+
+/**
+ * POST /api/webhooks/clerk
+ * Receive Clerk user events (`user.created`, `user.updated`, `user.deleted`).
+ * The Svix signature is checked against CLERK_WEBHOOK_SIGNING_SECRET.
+ * Deletions the background run doesn't finish are picked up by the account-deletions cron.
+ */
+export async function POST(req: NextRequest) {
+  let event;
+  try {
+    event = await verifyWebhook(req);
+  } catch (error) {
+    console.error("Clerk webhook verification failed:", error);
+    return NextResponse.json({ error: "Invalid webhook signature" }, { status: 400 });
+  }
+
+  try {
+    // verifyWebhook has checked the svix-id header is present
+    const { result, deletionJobId } = await handleClerkWebhook(req.headers.get("svix-id")!, event);
+
+    if (deletionJobId) {
+      after(async () => {
+        try {
+          await runAccountDeletion(deletionJobId);
+        } catch (error) {
+          console.error(`Error running account deletion ${deletionJobId}:`, error);
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error("Error handling Clerk webhook:", error);
+    // A 5xx makes Svix retry the delivery
+    return NextResponse.json(
+      { error: "Failed to handle webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,383 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import { useRouter } from 'next/navigation';
+import { Download, Clock, HardDrive, ArrowLeft, Copy, Check, Trash2, Lock, Loader2, Files, User, FileArchive } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { VISIBILITY_OPTIONS } from '@/components/VisibilityDialog';
+import { FileVisibility } from '@/lib/types';
+import { toast } from 'sonner';
+import Link from 'next/link';
+
+interface BundleFile {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadDate: string;
+  downloadCount: number;
+  expiresAt: string | null;
+  visibility: FileVisibility;
+  isPasswordProtected: boolean;
+  downloadUrl: string;
+}
+
+interface BundleData {
+  id: string;
+  name: string | null;
+  visibility: FileVisibility;
+  expiresAt: string | null;
+  createdAt: string;
+  isGuest: boolean;
+  user: {
+    id: string;
+    email: string | null;
+    name: string | null;
+    imageUrl: string | null;
+  } | null;
+  isOwner: boolean;
+  totalSize: number;
+  files: BundleFile[];
+}
+
+// Bundle expiry presets offered to the owner (null = while any file is available)
+const EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: 'With files', hours: null },
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '7 days', hours: 168 },
+];
+
+export default function BundlePage({ params }: { params: Promise<{ bundleId: string }> }) {
+  const { bundleId } = use(params);
+  const router = useRouter();
+  const [bundle, setBundle] = useState<BundleData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchBundle = async () => {
+      try {
+        const response = await fetch(`/api/bundles/${bundleId}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch bundle');
+        }
+
+        setBundle(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBundle();
+  }, [bundleId]);
+
+  const downloadFile = (file: BundleFile) => {
+    // The download route counts the download, or redirects to the file page
+    // (e.g. to enter a password) when it can't be served directly
+    const link = document.createElement('a');
+    link.href = file.downloadUrl;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    if (!file.isPasswordProtected && bundle) {
+      setBundle({
+        ...bundle,
+        files: bundle.files.map(f => f.id === file.id ? { ...f, downloadCount: f.downloadCount + 1 } : f),
+      });
+    }
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    toast.success('Link copied to clipboard');
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const updateBundle = async (changes: { visibility?: FileVisibility; expiresAt?: string | null }) => {
+    if (!bundle) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/bundles/${bundleId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update bundle');
+      }
+
+      setBundle({ ...bundle, visibility: data.visibility, expiresAt: data.expiresAt });
+      toast.success('Bundle updated');
+    } catch (error) {
+      console.error('Error updating bundle:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update bundle');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setExpiry = (hours: number | null) => {
+    updateBundle({
+      expiresAt: hours === null ? null : new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+    });
+  };
+
+  const deleteBundle = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/bundles/${bundleId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete bundle');
+      }
+
+      toast.success('Bundle link deleted. Your files were kept.');
+      router.push('/dashboard');
+    } catch (error) {
+      console.error('Error deleting bundle:', error);
+      toast.error('Failed to delete bundle');
+      setIsSaving(false);
+    }
+  };
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getFileIcon = (type: string) => {
+    if (type.startsWith('image/')) return '🖼️';
+    if (type.startsWith('video/')) return '🎬';
+    if (type.startsWith('audio/')) return '🎵';
+    if (type.includes('pdf')) return '📄';
+    if (type.includes('zip') || type.includes('archive')) return '📦';
+    if (type.includes('text') || type.includes('document')) return '📝';
+    return '📁';
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Link href="/">
+          <Button variant="ghost" className="mb-4 gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Home
+          </Button>
+        </Link>
+        <div className="space-y-4">
+          <Skeleton className="h-24 w-full rounded-xl" />
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !bundle) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Link href="/">
+          <Button variant="ghost" className="mb-4 gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Home
+          </Button>
+        </Link>
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">😕</div>
+          <h1 className="text-2xl font-bold mb-2">Bundle Not Found</h1>
+          <p className="text-muted-foreground mb-4">
+            {error || 'The bundle you\'re looking for doesn\'t exist or has been deleted.'}
+          </p>
+          <Link href="/">
+            <Button>Go Home</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Owners are never locked out of their own files
+  const lockedCount = bundle.isOwner ? 0 : bundle.files.filter((file) => file.isPasswordProtected).length;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <Link href="/">
+        <Button variant="ghost" className="mb-4 gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          Back to Home
+        </Button>
+      </Link>
+
+      <div className="bg-card border rounded-xl p-6 space-y-6">
+        {/* Bundle Header */}
+        <div className="flex items-start gap-4">
+          <div className="p-3 bg-primary/10 rounded-lg flex-shrink-0">
+            <Files className="w-8 h-8 text-primary" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold break-words">
+              {bundle.name || `${bundle.files.length} shared ${bundle.files.length === 1 ? 'file' : 'files'}`}
+            </h1>
+            <p className="text-sm text-muted-foreground mt-1 flex items-center gap-2">
+              <User className="w-4 h-4" />
+              Shared by <span className="font-medium text-foreground">{bundle.user?.name || (bundle.isGuest ? 'Guest User' : 'Anonymous')}</span>
+            </p>
+          </div>
+        </div>
+
+        {/* Bundle Stats */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <HardDrive className="w-4 h-4 text-muted-foreground" />
+            <span className="text-muted-foreground">Total size:</span>
+            <span className="font-medium">{formatFileSize(bundle.totalSize)}</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <Clock className="w-4 h-4 text-muted-foreground" />
+            <span className="text-muted-foreground">Expires:</span>
+            <span className="font-medium">{bundle.expiresAt ? formatDate(bundle.expiresAt) : 'With its files'}</span>
+          </div>
+        </div>
+
+        {/* File List */}
+        <div className="border rounded-lg divide-y">
+          {bundle.files.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground text-center">
+              All files in this bundle have expired.
+            </p>
+          ) : (
+            bundle.files.map((file) => (
+              <div key={file.id} className="flex items-center gap-3 p-3">
+                <div className="text-2xl flex-shrink-0">{getFileIcon(file.type)}</div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{file.name}</p>
+                  <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => downloadFile(file)}
+                >
+                  {file.isPasswordProtected ? <Lock className="w-4 h-4" /> : <Download className="w-4 h-4" />}
+                  Download
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        {lockedCount > 0 && bundle.files.length > 1 && (
+          <p className="text-xs text-muted-foreground">
+            {lockedCount === 1 ? '1 password-protected file is' : `${lockedCount} password-protected files are`} left
+            out of the ZIP until unlocked.
+          </p>
+        )}
+        <div className="flex flex-col sm:flex-row gap-3">
+          {bundle.files.length > 1 && (
+            <Button
+              size="lg"
+              onClick={() => { window.location.href = `/b/${bundleId}/zip`; }}
+              className="flex-1 gap-2"
+            >
+              <FileArchive className="w-5 h-5" />
+              Download all (ZIP)
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={copyLink}
+            className="flex-1 gap-2"
+          >
+            {copied ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+            {copied ? 'Copied!' : 'Copy Link'}
+          </Button>
+          {bundle.isOwner && (
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={deleteBundle}
+              disabled={isSaving}
+              className="gap-2 text-destructive hover:text-destructive"
+              title="Delete the bundle link and keep the files"
+            >
+              <Trash2 className="w-5 h-5" />
+              Delete Link
+            </Button>
+          )}
+        </div>
+
+        {/* Owner Settings */}
+        {bundle.isOwner && (
+          <div className="space-y-4 pt-4 border-t">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground w-20">Visibility:</span>
+              {VISIBILITY_OPTIONS.map((option) => {
+                const Icon = option.icon;
+                return (
+                  <Button
+                    key={option.value}
+                    variant={bundle.visibility === option.value ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 text-xs gap-1.5"
+                    onClick={() => updateBundle({ visibility: option.value })}
+                    disabled={isSaving || bundle.visibility === option.value}
+                    title={option.description}
+                  >
+                    <Icon className="w-3.5 h-3.5" />
+                    {option.label}
+                  </Button>
+                );
+              })}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground w-20">Expiry:</span>
+              {EXPIRY_OPTIONS.map((option) => (
+                <Button
+                  key={option.label}
+                  variant={option.hours === null && !bundle.expiresAt ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setExpiry(option.hours)}
+                  disabled={isSaving}
+                >
+                  {option.label}
+                </Button>
+              ))}
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
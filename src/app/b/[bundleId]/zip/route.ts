@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/db";
+import { getOwnership, isOwnerPendingDeletion } from "@/lib/file-access";
+import { createZipDownload } from "@/lib/zip-download";
+import { withRateLimit } from "@/lib/route-rate-limit";
+
+/**
+ * GET /b/[bundleId]/zip
+ * Stream every downloadable file in the bundle as one ZIP.
+ * Counts as one download of each included file.
+ * Browsers are sent back to the bundle page when the download isn't allowed.
+ */
+export const GET = withRateLimit("download", async (
+  req: Request,
+  { params }: { params: Promise<{ bundleId: string }> }
+) => {
+  const { bundleId } = await params;
+  const headersList = await headers();
+  const wantsHtml = headersList.get("accept")?.includes("text/html") ?? false;
+
+  const fail = (error: string, status: number) =>
+    wantsHtml
+      ? NextResponse.redirect(new URL(`/b/${bundleId}`, req.url), 303)
+      : NextResponse.json({ error }, { status });
+
+  try {
+    const bundle = await prisma.bundle.findUnique({
+      where: { id: bundleId },
+      include: { files: { orderBy: { name: "asc" } } },
+    });
+
+    if (!bundle) {
+      return fail("Bundle not found", 404);
+    }
+
+    const { isOwner } = await getOwnership(bundle);
+    if (bundle.visibility === "private" && !isOwner) {
+      return fail("Bundle not found", 404);
+    }
+
+    if (!isOwner && await isOwnerPendingDeletion(bundle)) {
+      return fail("This bundle is no longer available", 410);
+    }
+
+    if (bundle.expiresAt && new Date() > bundle.expiresAt) {
+      return fail("Bundle has expired", 410);
+    }
+
+    const result = await createZipDownload(bundle.files, bundle.name || `bundle-${bundle.id}`);
+    if (!(result instanceof Response)) {
+      return fail(result.error, result.status);
+    }
+
+    return result;
+  } catch (error) {
+    console.error("Error downloading bundle:", error);
+    return NextResponse.json(
+      { error: "Failed to download bundle" },
+      { status: 500 }
+    );
+  }
+});
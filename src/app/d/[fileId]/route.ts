@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { prisma } from "@/lib/db";
+import { contentDisposition, isDownloadLimitReached, recordDownload, removeWhenSent } from "@/lib/downloads";
+import { getFileAccess } from "@/lib/file-access";
+import { getDownloadRequestInfo, logDownloadEvent } from "@/lib/download-analytics";
+import { getStorageProvider } from "@/lib/storage";
+import { withRateLimit } from "@/lib/route-rate-limit";
+
+/**
+ * GET /d/[fileId]
+ * Check expiry, download cap and password, count the download on the server
+ * and stream the file back as an attachment.
+ * Browsers are sent back to the file page when the download isn't allowed.
+ */
+export const GET = withRateLimit("download", async (
+  req: Request,
+  { params }: { params: Promise<{ fileId: string }> }
+) => {
+  const { fileId } = await params;
+  const headersList = await headers();
+  const wantsHtml = headersList.get("accept")?.includes("text/html") ?? false;
+
+  const fail = (error: string, status: number) =>
+    wantsHtml
+      ? NextResponse.redirect(new URL(`/f/${fileId}`, req.url), 303)
+      : NextResponse.json({ error }, { status });
+
+  try {
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+    });
+
+    if (!file) {
+      return fail("File not found", 404);
+    }
+
+    const { isHidden, isUnavailable, isLocked } = await getFileAccess(file);
+    if (isHidden) {
+      return fail("File not found", 404);
+    }
+
+    if (isUnavailable) {
+      return fail("This file is no longer available", 410);
+    }
+
+    if (file.expiresAt && new Date() > file.expiresAt) {
+      return fail("File has expired", 410);
+    }
+
+    if (isDownloadLimitReached(file)) {
+      return fail("This file has reached its download limit", 410);
+    }
+
+    if (isLocked) {
+      return fail("This file is password protected", 401);
+    }
+
+    let body: ReadableStream<Uint8Array>;
+    try {
+      const storage = await getStorageProvider(file.storageProvider);
+      body = await storage.getStream(file.storageKey);
+    } catch (storageError) {
+      console.error(`Storage fetch failed for ${file.id}:`, storageError);
+      return NextResponse.json({ error: "Failed to fetch file from storage" }, { status: 502 });
+    }
+
+    // Only count the download once we know the bytes are available
+    const result = await recordDownload(file.id);
+    if (!result.success) {
+      await body.cancel();
+      return result.reason === "not_found"
+        ? fail("File not found", 404)
+        : fail(result.reason === "expired" ? "File has expired" : "This file has reached its download limit", 410);
+    }
+
+    await logDownloadEvent(file.id, await getDownloadRequestInfo());
+
+    // The last allowed download removes the file once it has been sent
+    return new Response(removeWhenSent(body, result.remainingDownloads === 0 ? [file.id] : []), {
+      status: 200,
+      headers: {
+        "Content-Type": file.type || "application/octet-stream",
+        "Content-Disposition": contentDisposition(file.name),
+        "Content-Length": String(file.size),
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading file:", error);
+    return NextResponse.json(
+      { error: "Failed to download file" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,9 +1,19 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useUser, SignInButton, SignOutButton } from '@clerk/nextjs';
-import { File, Download, Trash2, Clock, HardDrive, Copy, Check, ExternalLink, AlertTriangle, LogOut, UserX, Loader2 } from 'lucide-react';
+import { useClerk, useUser, SignInButton, SignOutButton } from '@clerk/nextjs';
+import { File, Download, Trash2, Clock, HardDrive, Copy, Check, ExternalLink, AlertTriangle, LogOut, UserX, Loader2, Lock, LockOpen, Flame, BarChart3, Files, FileArchive, DownloadCloud, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { FilePasswordDialog } from '@/components/FilePasswordDialog';
+import { DownloadLimitDialog } from '@/components/DownloadLimitDialog';
+import { ExpiryDialog } from '@/components/ExpiryDialog';
+import { FileAnalyticsDialog } from '@/components/FileAnalyticsDialog';
+import { VisibilityDialog, VisibilityIcon } from '@/components/VisibilityDialog';
+import { DashboardBundles } from '@/components/DashboardBundles';
+import { DataExportDialog } from '@/components/DataExportDialog';
+import { AccessTokensDialog } from '@/components/AccessTokensDialog';
+import { GUEST_FILES_CLAIMED_EVENT } from '@/components/GuestClaimDialog';
+import { FileVisibility } from '@/lib/types';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import {
@@ -24,11 +34,15 @@ interface DashboardFile {
   type: string;
   uploadDate: string;
   downloadCount: number;
+  maxDownloads: number | null;
   expiresAt: string | null;
+  hasPassword: boolean;
+  visibility: FileVisibility;
 }
 
 export default function DashboardPage() {
   const { user, isLoaded } = useUser();
+  const { signOut } = useClerk();
   const [files, setFiles] = useState<DashboardFile[]>([]);
   const [loading, setLoading] = useState(true);
   const [copiedId, setCopiedId] = useState<string | null>(null);
@@ -37,6 +51,17 @@ export default function DashboardPage() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteAccountDialog, setShowDeleteAccountDialog] = useState(false);
   const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [deletionGraceDays, setDeletionGraceDays] = useState<number | null>(null);
+  const [showDataExportDialog, setShowDataExportDialog] = useState(false);
+  const [showAccessTokensDialog, setShowAccessTokensDialog] = useState(false);
+  const [passwordFileId, setPasswordFileId] = useState<string | null>(null);
+  const [limitFileId, setLimitFileId] = useState<string | null>(null);
+  const [expiryFileId, setExpiryFileId] = useState<string | null>(null);
+  const [analyticsFileId, setAnalyticsFileId] = useState<string | null>(null);
+  const [visibilityFileId, setVisibilityFileId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isBundling, setIsBundling] = useState(false);
+  const [bundlesRefreshKey, setBundlesRefreshKey] = useState(0);
 
   useEffect(() => {
     const fetchFiles = async () => {
@@ -57,6 +82,10 @@ export default function DashboardPage() {
 
     if (isLoaded && user) {
       fetchFiles();
+
+      // Refresh when guest uploads are added to the account
+      window.addEventListener(GUEST_FILES_CLAIMED_EVENT, fetchFiles);
+      return () => window.removeEventListener(GUEST_FILES_CLAIMED_EVENT, fetchFiles);
     }
   }, [isLoaded, user]);
 
@@ -94,6 +123,36 @@ export default function DashboardPage() {
     setTimeout(() => setCopiedId(null), 2000);
   };
 
+  const toggleSelected = (fileId: string) => {
+    setSelectedIds(prev => prev.includes(fileId) ? prev.filter(id => id !== fileId) : [...prev, fileId]);
+  };
+
+  const createBundle = async () => {
+    setIsBundling(true);
+    try {
+      const response = await fetch('/api/bundles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileIds: selectedIds }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create bundle');
+      }
+
+      navigator.clipboard.writeText(`${window.location.origin}/b/${data.id}`);
+      toast.success('Bundle created', { description: 'Link copied to clipboard' });
+      setSelectedIds([]);
+      setBundlesRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Error creating bundle:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create bundle');
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
   const deleteFile = async () => {
     if (!fileToDelete) return;
     
@@ -108,6 +167,7 @@ export default function DashboardPage() {
       }
 
       setFiles(prev => prev.filter(f => f.id !== fileToDelete));
+      setSelectedIds(prev => prev.filter(id => id !== fileToDelete));
       toast.success('File deleted successfully');
       setShowDeleteDialog(false);
       setFileToDelete(null);
@@ -124,6 +184,16 @@ export default function DashboardPage() {
     setShowDeleteDialog(true);
   };
 
+  // Show how long the account can still be restored
+  useEffect(() => {
+    if (!showDeleteAccountDialog || deletionGraceDays !== null) return;
+
+    fetch('/api/account')
+      .then((response) => response.ok ? response.json() : null)
+      .then((data) => data && setDeletionGraceDays(data.graceDays))
+      .catch((error) => console.error('Error fetching account status:', error));
+  }, [showDeleteAccountDialog, deletionGraceDays]);
+
   const deleteAccount = async () => {
     setIsDeletingAccount(true);
     try {
@@ -131,17 +201,19 @@ export default function DashboardPage() {
         method: 'DELETE',
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.error || 'Failed to delete account');
       }
 
-      toast.success('Account deleted successfully');
+      toast.success('Account scheduled for deletion', {
+        description: `Sign in again before ${new Date(data.deleteAt).toLocaleDateString()} to restore it.`,
+      });
       setShowDeleteAccountDialog(false);
       
-      // Redirect to home page after a short delay
+      // Sign out and go home after a short delay
       setTimeout(() => {
-        window.location.href = '/';
+        signOut({ redirectUrl: '/' });
       }, 2000);
     } catch (error) {
       console.error('Error deleting account:', error);
@@ -151,6 +223,11 @@ export default function DashboardPage() {
     }
   };
 
+  const limitFile = limitFileId ? files.find(f => f.id === limitFileId) : undefined;
+  const expiryFile = expiryFileId ? files.find(f => f.id === expiryFileId) : undefined;
+  const analyticsFile = analyticsFileId ? files.find(f => f.id === analyticsFileId) : undefined;
+  const visibilityFile = visibilityFileId ? files.find(f => f.id === visibilityFileId) : undefined;
+
   if (!isLoaded) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -184,6 +261,26 @@ export default function DashboardPage() {
                   <span className="sm:hidden">Out</span>
                 </Button>
               </SignOutButton>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowAccessTokensDialog(true)}
+                className="gap-2 w-full sm:w-auto justify-center"
+              >
+                <KeyRound className="w-4 h-4" />
+                <span className="hidden sm:inline">Access Tokens</span>
+                <span className="sm:hidden">Tokens</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowDataExportDialog(true)}
+                className="gap-2 w-full sm:w-auto justify-center"
+              >
+                <DownloadCloud className="w-4 h-4" />
+                <span className="hidden sm:inline">Download My Data</span>
+                <span className="sm:hidden">My Data</span>
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -253,8 +350,25 @@ export default function DashboardPage() {
 
       {/* Files List */}
       <div className="bg-card border rounded-lg">
-        <div className="p-4 border-b">
+        <div className="p-4 border-b flex items-center justify-between gap-4">
           <h2 className="text-lg font-semibold">Your Files</h2>
+          {selectedIds.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={() => { window.location.href = `/api/dashboard/zip?ids=${selectedIds.join(',')}`; }}
+              >
+                <FileArchive className="w-4 h-4" />
+                Download {selectedIds.length} as ZIP
+              </Button>
+              <Button size="sm" className="gap-2" onClick={createBundle} disabled={isBundling}>
+                {isBundling ? <Loader2 className="w-4 h-4 animate-spin" /> : <Files className="w-4 h-4" />}
+                Share {selectedIds.length} as bundle
+              </Button>
+            </div>
+          )}
         </div>
 
         {loading ? (
@@ -285,6 +399,15 @@ export default function DashboardPage() {
             <table className="w-full">
               <thead>
                 <tr className="border-b bg-muted/50">
+                  <th className="p-4 w-10">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all files"
+                      checked={selectedIds.length === files.length}
+                      onChange={(e) => setSelectedIds(e.target.checked ? files.map(f => f.id) : [])}
+                      className="h-4 w-4 accent-primary"
+                    />
+                  </th>
                   <th className="text-left p-4 font-semibold">File</th>
                   <th className="text-left p-4 font-semibold">Size</th>
                   <th className="text-left p-4 font-semibold">Downloads</th>
@@ -298,6 +421,15 @@ export default function DashboardPage() {
                     key={file.id}
                     className="border-b hover:bg-muted/30 transition-colors"
                   >
+                    <td className="p-4">
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${file.name}`}
+                        checked={selectedIds.includes(file.id)}
+                        onChange={() => toggleSelected(file.id)}
+                        className="h-4 w-4 accent-primary"
+                      />
+                    </td>
                     <td className="p-4">
                       <div className="flex items-center gap-3">
                         <div className="text-2xl">{getFileIcon(file.type)}</div>
@@ -320,7 +452,10 @@ export default function DashboardPage() {
                     <td className="p-4">
                       <span className="flex items-center gap-2 text-sm">
                         <Download className="w-4 h-4 text-muted-foreground" />
-                        {file.downloadCount}
+                        {file.maxDownloads !== null ? `${file.downloadCount} / ${file.maxDownloads}` : file.downloadCount}
+                        {file.maxDownloads === 1 && (
+                          <Flame className="w-3.5 h-3.5 text-orange-500" aria-label="Deleted after first download" />
+                        )}
                       </span>
                     </td>
                     <td className="p-4">
@@ -344,6 +479,55 @@ export default function DashboardPage() {
                             <Copy className="w-4 h-4" />
                           )}
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setVisibilityFileId(file.id)}
+                          title={`Visibility: ${file.visibility}`}
+                          className="h-8 w-8"
+                        >
+                          <VisibilityIcon visibility={file.visibility} className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setPasswordFileId(file.id)}
+                          title={file.hasPassword ? 'Change or remove password' : 'Set password'}
+                          className="h-8 w-8"
+                        >
+                          {file.hasPassword ? (
+                            <Lock className="w-4 h-4 text-amber-500" />
+                          ) : (
+                            <LockOpen className="w-4 h-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setLimitFileId(file.id)}
+                          title="Download limit"
+                          className="h-8 w-8"
+                        >
+                          <Flame className={file.maxDownloads !== null ? 'w-4 h-4 text-orange-500' : 'w-4 h-4'} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setExpiryFileId(file.id)}
+                          title="Change expiry"
+                          className="h-8 w-8"
+                        >
+                          <Clock className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setAnalyticsFileId(file.id)}
+                          title="Download analytics"
+                          className="h-8 w-8"
+                        >
+                          <BarChart3 className="w-4 h-4" />
+                        </Button>
                         <Link href={`/f/${file.id}`}>
                           <Button variant="ghost" size="icon" title="View file" className="h-8 w-8">
                             <ExternalLink className="w-4 h-4" />
@@ -368,6 +552,79 @@ export default function DashboardPage() {
         )}
       </div>
 
+      <DashboardBundles refreshKey={bundlesRefreshKey} />
+
+      {/* Visibility Dialog */}
+      {visibilityFile && (
+        <VisibilityDialog
+          key={visibilityFile.id}
+          fileId={visibilityFile.id}
+          fileName={visibilityFile.name}
+          visibility={visibilityFile.visibility}
+          open
+          onOpenChange={(open) => !open && setVisibilityFileId(null)}
+          onChange={(visibility) => setFiles(prev => prev.map(f =>
+            f.id === visibilityFile.id ? { ...f, visibility } : f
+          ))}
+        />
+      )}
+
+      {/* Password Dialog */}
+      {passwordFileId && (
+        <FilePasswordDialog
+          fileId={passwordFileId}
+          fileName={files.find(f => f.id === passwordFileId)?.name ?? ''}
+          hasPassword={files.find(f => f.id === passwordFileId)?.hasPassword ?? false}
+          open={!!passwordFileId}
+          onOpenChange={(open) => !open && setPasswordFileId(null)}
+          onChange={(hasPassword) => setFiles(prev => prev.map(f =>
+            f.id === passwordFileId ? { ...f, hasPassword } : f
+          ))}
+        />
+      )}
+
+      {/* Download Limit Dialog */}
+      {limitFile && (
+        <DownloadLimitDialog
+          key={limitFile.id}
+          fileId={limitFile.id}
+          fileName={limitFile.name}
+          downloadCount={limitFile.downloadCount}
+          maxDownloads={limitFile.maxDownloads}
+          open
+          onOpenChange={(open) => !open && setLimitFileId(null)}
+          onChange={(maxDownloads, expiresAt) => setFiles(prev => prev.map(f =>
+            f.id === limitFile.id ? { ...f, maxDownloads, expiresAt } : f
+          ))}
+        />
+      )}
+
+      {/* Expiry Dialog */}
+      {expiryFile && (
+        <ExpiryDialog
+          key={expiryFile.id}
+          fileId={expiryFile.id}
+          fileName={expiryFile.name}
+          expiresAt={expiryFile.expiresAt}
+          open
+          onOpenChange={(open) => !open && setExpiryFileId(null)}
+          onChange={(expiresAt) => setFiles(prev => prev.map(f =>
+            f.id === expiryFile.id ? { ...f, expiresAt } : f
+          ))}
+        />
+      )}
+
+      {/* Analytics Dialog */}
+      {analyticsFile && (
+        <FileAnalyticsDialog
+          key={analyticsFile.id}
+          fileId={analyticsFile.id}
+          fileName={analyticsFile.name}
+          open
+          onOpenChange={(open) => !open && setAnalyticsFileId(null)}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -413,6 +670,22 @@ export default function DashboardPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Access Tokens Dialog */}
+      {showAccessTokensDialog && (
+        <AccessTokensDialog
+          open
+          onOpenChange={setShowAccessTokensDialog}
+        />
+      )}
+
+      {/* Data Export Dialog */}
+      {showDataExportDialog && (
+        <DataExportDialog
+          open
+          onOpenChange={setShowDataExportDialog}
+        />
+      )}
+
       {/* Delete Account Dialog */}
       <AlertDialog open={showDeleteAccountDialog} onOpenChange={setShowDeleteAccountDialog}>
         <AlertDialogContent className="sm:max-w-md">
@@ -428,7 +701,9 @@ export default function DashboardPage() {
             <div className="p-4 bg-destructive/5 border border-destructive/20 rounded-lg">
               <p className="text-sm font-semibold text-destructive flex items-center gap-2">
                 <AlertTriangle className="w-4 h-4" />
-                This action is PERMANENT and CANNOT be undone!
+                {deletionGraceDays
+                  ? `Your account is deleted for good after ${deletionGraceDays} ${deletionGraceDays === 1 ? 'day' : 'days'}`
+                  : 'Your account is deleted for good after a grace period'}
               </p>
             </div>
             
@@ -436,10 +711,10 @@ export default function DashboardPage() {
               <p className="text-sm font-medium text-foreground">If you delete your account:</p>
               <ul className="space-y-2">
                 {[
-                  'All your files will be permanently deleted',
-                  'Your user profile will be removed',
-                  'You will lose access to all uploaded content',
-                  'Your account cannot be recovered',
+                  'Your files stop being available right away',
+                  'Sign in again before the grace period ends to restore everything',
+                  'After that, all your files will be permanently deleted',
+                  'Your user profile will be removed and cannot be recovered',
                 ].map((item, index) => (
                   <li key={index} className="flex items-start gap-2 text-sm text-muted-foreground">
                     <div className="w-1.5 h-1.5 rounded-full bg-destructive mt-1.5 flex-shrink-0" />
@@ -455,7 +730,7 @@ export default function DashboardPage() {
                 Warning:
               </p>
               <p className="text-xs text-amber-600/80 dark:text-amber-400/80">
-                This will delete your account from both our platform and Clerk authentication system.
+                Once the grace period ends, your account is deleted from both our platform and Clerk authentication system.
               </p>
             </div>
           </AlertDialogDescription>
@@ -3,9 +3,14 @@
 import { useState, useEffect, use } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useUser } from '@clerk/nextjs';
-import { Download, File, Clock, HardDrive, User, ArrowLeft, Copy, Check, Trash2, AlertTriangle } from 'lucide-react';
+import { Download, File, Clock, HardDrive, User, ArrowLeft, Copy, Check, Trash2, AlertTriangle, Lock, Loader2, Flame } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
+import { FilePasswordDialog } from '@/components/FilePasswordDialog';
+import { DownloadLimitDialog } from '@/components/DownloadLimitDialog';
+import { ExpiryDialog } from '@/components/ExpiryDialog';
+import { formatCountdown, isRateLimitErrorBody } from '@/lib/rate-limit-response';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import {
@@ -26,16 +31,19 @@ interface FileData {
   type: string;
   uploadDate: string;
   downloadCount: number;
+  maxDownloads: number | null;
   expiresAt: string | null;
-  uploadThingUrl: string;
+  downloadUrl: string | null;
   isGuest: boolean;
   user: {
     id: string;
-    email: string;
+    email: string | null;
     name: string | null;
     imageUrl: string | null;
   } | null;
   isOwner?: boolean;
+  isPasswordProtected: boolean;
+  isLocked: boolean;
 }
 
 export default function FilePage({ params }: { params: Promise<{ fileId: string }> }) {
@@ -48,6 +56,11 @@ export default function FilePage({ params }: { params: Promise<{ fileId: string
   const [copied, setCopied] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showPasswordDialog, setShowPasswordDialog] = useState(false);
+  const [showLimitDialog, setShowLimitDialog] = useState(false);
+  const [showExpiryDialog, setShowExpiryDialog] = useState(false);
+  const [unlockPassword, setUnlockPassword] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
 
   useEffect(() => {
     const fetchFile = async () => {
@@ -60,11 +73,6 @@ export default function FilePage({ params }: { params: Promise<{ fileId: string
         }
 
         setFile(data);
-
-        // Sync current user's info if they're the owner
-        if (user && data.user && user.id === data.user.id) {
-          await fetch('/api/sync-user', { method: 'POST' });
-        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
       } finally {
@@ -75,30 +83,54 @@ export default function FilePage({ params }: { params: Promise<{ fileId: string
     fetchFile();
   }, [fileId, user]);
 
-  const handleDownload = async () => {
-    if (file?.uploadThingUrl) {
-      // Increment download count
-      try {
-        await fetch(`/api/files/${file.id}`, {
-          method: 'POST',
-        });
-      } catch (error) {
-        console.error('Failed to increment download count:', error);
-      }
-
-      // Direct download by creating a temporary link
+  const handleDownload = () => {
+    if (file?.downloadUrl) {
+      // The download route counts the download and responds with an attachment,
+      // or redirects back here if the file is no longer available
       const link = document.createElement('a');
-      link.href = file.uploadThingUrl;
-      link.setAttribute('download', file.name);
-      link.setAttribute('target', '_blank');
+      link.href = file.downloadUrl;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
 
+      setFile({ ...file, downloadCount: file.downloadCount + 1 });
       toast.success('Download started');
     }
   };
 
+  const unlockFile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    try {
+      const response = await fetch(`/api/files/${fileId}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: unlockPassword }),
+      });
+
+      const data = await response.json();
+      if (isRateLimitErrorBody(data)) {
+        throw new Error(`Too many password attempts. Try again in ${formatCountdown(data.retryAfter)}.`);
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unlock file');
+      }
+
+      // The unlock cookie is now set, so the file details include the download URL
+      const fileResponse = await fetch(`/api/files/${fileId}`);
+      if (fileResponse.ok) {
+        setFile(await fileResponse.json());
+      }
+      setUnlockPassword('');
+      toast.success('File unlocked');
+    } catch (error) {
+      console.error('Error unlocking file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock file');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
   const copyLink = () => {
     const url = window.location.href;
     navigator.clipboard.writeText(url);
@@ -299,18 +331,56 @@ export default function FilePage({ params }: { params: Promise<{ fileId: string
           <div className="flex items-center gap-2 text-sm">
             <Download className="w-4 h-4 text-muted-foreground" />
             <span className="text-muted-foreground">Downloads:</span>
-            <span className="font-medium">{file.downloadCount}</span>
+            <span className="font-medium">
+              {file.maxDownloads !== null ? `${file.downloadCount} / ${file.maxDownloads}` : file.downloadCount}
+            </span>
           </div>
         </div>
 
+        {/* Download Limit Notice */}
+        {file.maxDownloads !== null && (
+          <p className="text-sm text-orange-600 dark:text-orange-400 flex items-center gap-2">
+            <Flame className="w-4 h-4" />
+            {file.maxDownloads === 1
+              ? 'This file will be deleted after it is downloaded.'
+              : `This file will be deleted after ${file.maxDownloads - file.downloadCount} more downloads.`}
+          </p>
+        )}
+
+        {/* Password Prompt */}
+        {file.isLocked && (
+          <form onSubmit={unlockFile} className="p-4 rounded-lg border bg-muted/30 space-y-3">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <Lock className="w-4 h-4 text-amber-500" />
+              This file is password protected
+            </p>
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                autoComplete="current-password"
+                placeholder="Enter password"
+                value={unlockPassword}
+                onChange={(e) => setUnlockPassword(e.target.value)}
+                disabled={isUnlocking}
+                required
+              />
+              <Button type="submit" disabled={isUnlocking || !unlockPassword} className="gap-2">
+                {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+                Unlock
+              </Button>
+            </div>
+          </form>
+        )}
+
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-3 pt-4">
           <Button
             onClick={handleDownload}
             size="lg"
             className="flex-1 gap-2"
+            disabled={file.isLocked}
           >
-            <Download className="w-5 h-5" />
+            {file.isLocked ? <Lock className="w-5 h-5" /> : <Download className="w-5 h-5" />}
             Download Now
           </Button>
           <Button
@@ -322,6 +392,40 @@ export default function FilePage({ params }: { params: Promise<{ fileId: string
             {copied ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
             {copied ? 'Copied!' : 'Copy Link'}
           </Button>
+          {file.isOwner ? (
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={() => setShowLimitDialog(true)}
+              className="gap-2"
+            >
+              <Flame className={file.maxDownloads !== null ? "w-5 h-5 text-orange-500" : "w-5 h-5"} />
+              Limit
+            </Button>
+          ) : null}
+          {file.isOwner ? (
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={() => setShowExpiryDialog(true)}
+              className="gap-2"
+              title={file.expiresAt ? `Expires ${formatDate(file.expiresAt)}` : 'Never expires'}
+            >
+              <Clock className="w-5 h-5" />
+              Expiry
+            </Button>
+          ) : null}
+          {file.isOwner ? (
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={() => setShowPasswordDialog(true)}
+              className="gap-2"
+            >
+              <Lock className={file.isPasswordProtected ? "w-5 h-5 text-amber-500" : "w-5 h-5"} />
+              Password
+            </Button>
+          ) : null}
           {file.isOwner ? (
             <Button
               variant="outline"
@@ -336,6 +440,40 @@ export default function FilePage({ params }: { params: Promise<{ fileId: string
           ) : null}
         </div>
 
+        {file.isOwner && (
+          <FilePasswordDialog
+            fileId={file.id}
+            fileName={file.name}
+            hasPassword={file.isPasswordProtected}
+            open={showPasswordDialog}
+            onOpenChange={setShowPasswordDialog}
+            onChange={(isPasswordProtected) => setFile({ ...file, isPasswordProtected })}
+          />
+        )}
+
+        {file.isOwner && showLimitDialog && (
+          <DownloadLimitDialog
+            fileId={file.id}
+            fileName={file.name}
+            downloadCount={file.downloadCount}
+            maxDownloads={file.maxDownloads}
+            open={showLimitDialog}
+            onOpenChange={setShowLimitDialog}
+            onChange={(maxDownloads) => setFile({ ...file, maxDownloads })}
+          />
+        )}
+
+        {file.isOwner && showExpiryDialog && (
+          <ExpiryDialog
+            fileId={file.id}
+            fileName={file.name}
+            expiresAt={file.expiresAt}
+            open={showExpiryDialog}
+            onOpenChange={setShowExpiryDialog}
+            onChange={(expiresAt) => setFile({ ...file, expiresAt })}
+          />
+        )}
+
         {/* Delete Confirmation Dialog */}
         <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
           <AlertDialogContent>
@@ -384,7 +522,7 @@ export default function FilePage({ params }: { params: Promise<{ fileId: string
 
       {/* Additional Info */}
       <div className="mt-6 text-center text-sm text-muted-foreground">
-        <p>Files are automatically deleted after 48 hours to manage storage costs.</p>
+        <p>Files are automatically deleted when they expire to manage storage costs.</p>
       </div>
     </div>
   );
@@ -4,6 +4,8 @@ import "./globals.css";
 import { Header } from "@/components/Header";
 import { Toaster } from "@/components/ui/sonner";
 import { Providers } from "@/components/Providers";
+import { GuestClaimDialog } from "@/components/GuestClaimDialog";
+import { AccountRestoreDialog } from "@/components/AccountRestoreDialog";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -34,6 +36,8 @@ export default function RootLayout({
         <Providers>
           <Header />
           <main className="min-h-screen">{children}</main>
+          <GuestClaimDialog />
+          <AccountRestoreDialog />
           <Toaster richColors position="top-center" />
         </Providers>
       </body>
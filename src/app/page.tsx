@@ -5,6 +5,7 @@ import { UploadZone } from '@/components/UploadZone';
 import { FileList } from '@/components/FileList';
 import { UploadCloud, Zap, Shield, Globe, UserCheck } from 'lucide-react';
 import { DatabaseFile } from '@/lib/types';
+import { PLANS, formatPlanBytes, formatPlanHours } from '@/lib/plans';
 
 export default function Home() {
   const [recentFiles, setRecentFiles] = useState<DatabaseFile[]>([]);
@@ -44,8 +45,9 @@ export default function Home() {
         </h1>
 
         <p className="max-w-2xl mx-auto text-lg text-muted-foreground mb-8">
-          Upload any file up to 64MB and share it with a unique link.
-          No account required. Files auto-expire after 24-48 hours.
+          Upload any file up to {formatPlanBytes(PLANS.free.maxFileSize)} and share it with a unique link.
+          No account required. Files auto-expire after {formatPlanHours(PLANS.guest.defaultRetentionHours)}, or{' '}
+          {formatPlanHours(PLANS.free.defaultRetentionHours)} when you sign in.
         </p>
 
         {/* Features */}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, Copy, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type AccessTokenScope = 'read' | 'upload' | 'delete';
+
+const SCOPE_OPTIONS: { value: AccessTokenScope; label: string; description: string }[] = [
+  { value: 'read', label: 'Read', description: 'List files and fetch their details' },
+  { value: 'upload', label: 'Upload', description: 'Upload files and change their expiry' },
+  { value: 'delete', label: 'Delete', description: 'Delete files' },
+];
+
+interface AccessToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: AccessTokenScope[];
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface AccessTokensDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AccessTokensDialog({ open, onOpenChange }: AccessTokensDialogProps) {
+  const [tokens, setTokens] = useState<AccessToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(['read']);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const fetchTokens = async () => {
+      try {
+        const response = await fetch('/api/account/tokens');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load access tokens');
+        }
+        setTokens(data.tokens);
+      } catch (error) {
+        console.error('Error fetching access tokens:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load access tokens');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTokens();
+  }, []);
+
+  const toggleScope = (scope: AccessTokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const createToken = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/account/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create access token');
+      }
+
+      setTokens(prev => [data.accessToken, ...prev]);
+      setNewToken(data.token);
+      setCopied(false);
+      setName('');
+    } catch (error) {
+      console.error('Error creating access token:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create access token');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revokeToken = async (token: AccessToken) => {
+    setRevokingId(token.id);
+    try {
+      const response = await fetch(`/api/account/tokens/${token.id}`, { method: 'DELETE' });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke access token');
+      }
+
+      setTokens(prev => prev.filter(t => t.id !== token.id));
+      toast.success(`Revoked "${token.name}"`);
+    } catch (error) {
+      console.error('Error revoking access token:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke access token');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      setCopied(true);
+      toast.success('Token copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy token:', error);
+      toast.error('Failed to copy token');
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="sm:max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            Access Tokens
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Personal access tokens let scripts use the LiteShare API at{' '}
+            <code className="text-xs">/api/v1</code> as you. Send them as{' '}
+            <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {newToken && (
+          <div className="p-3 bg-amber-500/5 border border-amber-500/20 rounded-lg space-y-2">
+            <p className="text-xs font-semibold text-amber-600 dark:text-amber-400">
+              Copy your new token now. It won&apos;t be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 min-w-0 truncate rounded bg-muted px-2 py-1.5 text-xs">{newToken}</code>
+              <Button variant="outline" size="sm" onClick={copyToken} aria-label="Copy token">
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3 rounded-lg border p-3">
+          <Input
+            placeholder="Token name, e.g. Backup script"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isCreating}
+          />
+          <div className="space-y-2">
+            {SCOPE_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-0.5"
+                  checked={scopes.includes(option.value)}
+                  disabled={isCreating}
+                  onChange={() => toggleScope(option.value)}
+                />
+                <span>
+                  {option.label}
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <Button
+            size="sm"
+            onClick={createToken}
+            disabled={isCreating || !name.trim() || scopes.length === 0}
+          >
+            {isCreating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create token
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-2">You have no access tokens yet.</p>
+        ) : (
+          <ul className="max-h-60 overflow-y-auto divide-y rounded-lg border">
+            {tokens.map((token) => (
+              <li key={token.id} className="flex items-center gap-3 p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{token.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    <code>{token.prefix}…</code> · {token.scopes.join(', ')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {token.lastUsedAt
+                      ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                      : 'Never used'}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeToken(token)}
+                  disabled={revokingId !== null}
+                  className="text-destructive hover:text-destructive"
+                  aria-label={`Revoke ${token.name}`}
+                >
+                  {revokingId === token.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Close</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useClerk, useUser } from '@clerk/nextjs';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+/**
+ * Offers to restore an account that was deleted but is still within its
+ * grace period, when its owner signs back in
+ */
+export function AccountRestoreDialog() {
+  const { isSignedIn, user } = useUser();
+  const { signOut } = useClerk();
+  const [deleteAt, setDeleteAt] = useState<Date | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const response = await fetch('/api/account');
+        if (!response.ok) return;
+        const data = await response.json();
+        setDeleteAt(data.deleteAt ? new Date(data.deleteAt) : null);
+      } catch (error) {
+        console.error('Error fetching account status:', error);
+      }
+    };
+
+    if (isSignedIn) {
+      fetchStatus();
+    } else {
+      setDeleteAt(null);
+    }
+  }, [isSignedIn, user?.id]);
+
+  const restoreAccount = async () => {
+    setIsRestoring(true);
+    try {
+      const response = await fetch('/api/account/restore', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore your account');
+      }
+
+      toast.success('Welcome back! Your account and files have been restored');
+      setDeleteAt(null);
+    } catch (error) {
+      console.error('Error restoring account:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore your account');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!deleteAt}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <RotateCcw className="w-5 h-5" />
+            Restore your account?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Your account is scheduled for deletion on {deleteAt?.toLocaleDateString()}. Until then your files are
+            hidden from everyone. Restore it to get everything back, or sign out to let the deletion go ahead.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isRestoring} onClick={() => signOut({ redirectUrl: '/' })}>
+            Sign out
+          </AlertDialogCancel>
+          <AlertDialogAction
+            disabled={isRestoring}
+            onClick={(e) => {
+              // Keep the dialog open until the request succeeds
+              e.preventDefault();
+              restoreAccount();
+            }}
+          >
+            {isRestoring ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              'Restore my account'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Files, Copy, Check, ExternalLink, Trash2, Clock, HardDrive } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { VisibilityIcon } from '@/components/VisibilityDialog';
+import { FileVisibility } from '@/lib/types';
+import { toast } from 'sonner';
+import Link from 'next/link';
+
+interface DashboardBundle {
+  id: string;
+  name: string | null;
+  visibility: FileVisibility;
+  expiresAt: string | null;
+  createdAt: string;
+  fileCount: number;
+  totalSize: number;
+}
+
+interface DashboardBundlesProps {
+  // Bump to reload after a bundle is created
+  refreshKey: number;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+/**
+ * The signed-in user's bundles, shown below their files on the dashboard
+ */
+export function DashboardBundles({ refreshKey }: DashboardBundlesProps) {
+  const [bundles, setBundles] = useState<DashboardBundle[]>([]);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBundles = async () => {
+      try {
+        const response = await fetch('/api/dashboard/bundles');
+        if (!response.ok) {
+          throw new Error('Failed to fetch bundles');
+        }
+        setBundles(await response.json());
+      } catch (error) {
+        console.error('Error fetching bundles:', error);
+      }
+    };
+
+    fetchBundles();
+  }, [refreshKey]);
+
+  const copyLink = (bundleId: string) => {
+    navigator.clipboard.writeText(`${window.location.origin}/b/${bundleId}`);
+    setCopiedId(bundleId);
+    toast.success('Bundle link copied to clipboard');
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const deleteBundle = async (bundleId: string) => {
+    try {
+      const response = await fetch(`/api/bundles/${bundleId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete bundle');
+      }
+      setBundles(prev => prev.filter(b => b.id !== bundleId));
+      toast.success('Bundle link deleted. Your files were kept.');
+    } catch (error) {
+      console.error('Error deleting bundle:', error);
+      toast.error('Failed to delete bundle');
+    }
+  };
+
+  if (bundles.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-card border rounded-lg mt-6">
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold">Your Bundles</h2>
+      </div>
+      <div className="divide-y">
+        {bundles.map((bundle) => (
+          <div key={bundle.id} className="flex items-center gap-4 p-4 hover:bg-muted/30 transition-colors">
+            <Files className="w-6 h-6 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <h3 className="font-medium truncate flex items-center gap-2">
+                {bundle.name || `${bundle.fileCount} ${bundle.fileCount === 1 ? 'file' : 'files'}`}
+                <VisibilityIcon visibility={bundle.visibility} className="w-3.5 h-3.5 text-muted-foreground" />
+              </h3>
+              <p className="text-xs text-muted-foreground flex items-center gap-3">
+                <span className="flex items-center gap-1">
+                  <HardDrive className="w-3 h-3" />
+                  {formatFileSize(bundle.totalSize)}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  {bundle.expiresAt ? new Date(bundle.expiresAt).toLocaleString() : 'Expires with its files'}
+                </span>
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => copyLink(bundle.id)}
+                title="Copy link"
+                className="h-8 w-8"
+              >
+                {copiedId === bundle.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+              <Link href={`/b/${bundle.id}`}>
+                <Button variant="ghost" size="icon" title="Open bundle" className="h-8 w-8">
+                  <ExternalLink className="w-4 h-4" />
+                </Button>
+              </Link>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteBundle(bundle.id)}
+                title="Delete bundle link (keeps the files)"
+                className="h-8 w-8"
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Download, FileArchive, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// Checking too often would use up the account rate limit
+const POLL_INTERVAL_MS = 15_000;
+
+interface DataExport {
+  id: string;
+  status: 'pending' | 'running' | 'ready' | 'failed' | 'expired';
+  includeContents: boolean;
+  fileCount: number | null;
+  size: number | null;
+  requestedAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  downloadUrl: string | null;
+}
+
+interface DataExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+export function DataExportDialog({ open, onOpenChange }: DataExportDialogProps) {
+  const [latest, setLatest] = useState<DataExport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [includeContents, setIncludeContents] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const isPreparing = latest?.status === 'pending' || latest?.status === 'running';
+
+  const fetchLatest = useCallback(async () => {
+    try {
+      const response = await fetch('/api/account/export');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load data export');
+      }
+      setLatest(data.export);
+    } catch (error) {
+      console.error('Error fetching data export:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load data export');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLatest();
+  }, [fetchLatest]);
+
+  // Keep checking while the archive is assembled in the background
+  useEffect(() => {
+    if (!isPreparing) return;
+    const interval = setInterval(fetchLatest, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPreparing, fetchLatest]);
+
+  const requestExport = async () => {
+    setIsRequesting(true);
+    try {
+      const response = await fetch('/api/account/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ includeContents }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to request data export');
+      }
+
+      setLatest(data.export);
+      toast.success('Preparing your data', {
+        description: 'This can take a few minutes. You can close this dialog meanwhile.',
+      });
+    } catch (error) {
+      console.error('Error requesting data export:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to request data export');
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="sm:max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <FileArchive className="w-5 h-5" />
+            Download My Data
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Get a ZIP archive with your profile and a list of every file you have uploaded
+            (names, sizes, types, dates, download counts and expiry) as JSON and CSV.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {latest && (
+              <div className="rounded-lg border p-3 text-sm space-y-2">
+                {isPreparing && (
+                  <p className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Preparing your export, requested {new Date(latest.requestedAt).toLocaleString()}...
+                  </p>
+                )}
+                {latest.status === 'ready' && latest.downloadUrl && (
+                  <>
+                    <p>
+                      Your export is ready: {latest.fileCount} {latest.fileCount === 1 ? 'file' : 'files'}
+                      {latest.includeContents && ' with contents'}
+                      {latest.size !== null && `, ${formatBytes(latest.size)}`}.
+                    </p>
+                    {latest.expiresAt && (
+                      <p className="text-xs text-muted-foreground">
+                        The link works until {new Date(latest.expiresAt).toLocaleString()}.
+                      </p>
+                    )}
+                    <Button asChild size="sm" className="gap-2">
+                      <a href={latest.downloadUrl}>
+                        <Download className="w-4 h-4" />
+                        Download archive
+                      </a>
+                    </Button>
+                  </>
+                )}
+                {latest.status === 'expired' && (
+                  <p className="text-muted-foreground">Your last export has expired. Request a new one below.</p>
+                )}
+                {latest.status === 'failed' && (
+                  <p className="text-destructive">Your last export could not be prepared. Please try again.</p>
+                )}
+              </div>
+            )}
+
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                checked={includeContents}
+                disabled={isPreparing || isRequesting}
+                onChange={(e) => setIncludeContents(e.target.checked)}
+              />
+              <span>
+                Include the files themselves
+                <span className="block text-xs text-muted-foreground">
+                  Makes the archive as large as all your uploads together.
+                </span>
+              </span>
+            </label>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Close</AlertDialogCancel>
+          <Button onClick={requestExport} disabled={isLoading || isPreparing || isRequesting}>
+            {isRequesting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {latest?.status === 'ready' ? 'Request new export' : 'Request export'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import { Flame, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface DownloadLimitDialogProps {
+  fileId: string;
+  fileName: string;
+  downloadCount: number;
+  maxDownloads: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: (maxDownloads: number | null, expiresAt: string | null) => void;
+}
+
+export function DownloadLimitDialog({
+  fileId,
+  fileName,
+  downloadCount,
+  maxDownloads,
+  open,
+  onOpenChange,
+  onChange,
+}: DownloadLimitDialogProps) {
+  const [limit, setLimit] = useState(maxDownloads?.toString() ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saveLimit = async (newLimit: number | null) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/files/${fileId}/download-limit`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ maxDownloads: newLimit }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update download limit');
+      }
+
+      onChange(data.maxDownloads, data.expiresAt);
+      toast.success(newLimit === null ? 'Download limit removed' : `Download limit set to ${newLimit}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating download limit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update download limit');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const parsedLimit = parseInt(limit, 10);
+  const isValid = Number.isInteger(parsedLimit) && parsedLimit > downloadCount;
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Flame className="w-5 h-5 text-orange-500" />
+            Download Limit
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            <span className="font-semibold text-foreground">{fileName}</span> will be deleted once it has been
+            downloaded this many times. It has been downloaded {downloadCount} {downloadCount === 1 ? 'time' : 'times'} so far.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isValid) saveLimit(parsedLimit);
+          }}
+        >
+          <Input
+            type="number"
+            min={downloadCount + 1}
+            max={10000}
+            placeholder="Maximum downloads"
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            disabled={isSaving}
+          />
+          {downloadCount === 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={isSaving}
+              onClick={() => saveLimit(1)}
+            >
+              <Flame className="w-4 h-4 text-orange-500" />
+              Delete after first download
+            </Button>
+          )}
+        </form>
+        <AlertDialogFooter className="gap-2">
+          {maxDownloads !== null && (
+            <AlertDialogCancel
+              disabled={isSaving}
+              onClick={(e) => {
+                e.preventDefault();
+                saveLimit(null);
+              }}
+              className="sm:mr-auto"
+            >
+              Remove Limit
+            </AlertDialogCancel>
+          )}
+          <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={isSaving || !isValid}
+            onClick={(e) => {
+              // Keep the dialog open until the request succeeds
+              e.preventDefault();
+              saveLimit(parsedLimit);
+            }}
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
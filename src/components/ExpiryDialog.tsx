@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Clock, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ExpiryChoice, FileExpiryOption } from '@/lib/types';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ExpiryChange {
+  previousExpiresAt: string | null;
+  newExpiresAt: string | null;
+  source: 'owner' | 'claim' | 'download_limit';
+  createdAt: string;
+}
+
+interface ExpiryDialogProps {
+  fileId: string;
+  fileName: string;
+  expiresAt: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: (expiresAt: string | null) => void;
+}
+
+const formatExpiry = (date: string | null) =>
+  date ? new Date(date).toLocaleString() : 'Never';
+
+export function ExpiryDialog({ fileId, fileName, expiresAt, open, onOpenChange, onChange }: ExpiryDialogProps) {
+  const [options, setOptions] = useState<ExpiryChoice[]>([]);
+  const [history, setHistory] = useState<ExpiryChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [saving, setSaving] = useState<FileExpiryOption | null>(null);
+
+  useEffect(() => {
+    const fetchExpiry = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/files/${fileId}/expiry`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load expiry options');
+        }
+        setOptions(data.options);
+        setHistory(data.history);
+      } catch (error) {
+        console.error('Error fetching expiry:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load expiry options');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchExpiry();
+  }, [fileId]);
+
+  const saveExpiry = async (option: ExpiryChoice) => {
+    setSaving(option.value);
+    try {
+      const response = await fetch(`/api/files/${fileId}/expiry`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresIn: option.value }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update expiry');
+      }
+
+      onChange(data.expiresAt);
+      toast.success(data.expiresAt ? `File now expires in ${option.label.toLowerCase()}` : 'File will no longer expire');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating expiry:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update expiry');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Expiry
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            <span className="font-semibold text-foreground">{fileName}</span>{' '}
+            {expiresAt ? <>expires on {formatExpiry(expiresAt)}</> : 'never expires'}.
+            Pick a new expiry, counted from now, to extend or shorten it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {options.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  disabled={saving !== null}
+                  onClick={() => saveExpiry(option)}
+                  className={cn(
+                    'flex items-center justify-center gap-2 rounded-lg border p-3 text-sm font-medium transition-colors hover:bg-muted/50 disabled:opacity-60',
+                    option.value === 'never' && !expiresAt && 'border-primary bg-muted/50'
+                  )}
+                >
+                  {saving === option.value && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {history.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">History</p>
+                <ul className="max-h-32 overflow-y-auto space-y-1 text-xs text-muted-foreground">
+                  {history.map((change) => (
+                    <li key={change.createdAt}>
+                      {new Date(change.createdAt).toLocaleString()}:{' '}
+                      {formatExpiry(change.previousExpiresAt)} → {formatExpiry(change.newExpiresAt)}
+                      {change.source === 'claim' && ' (claimed from guest upload)'}
+                      {change.source === 'download_limit' && ' (download limit)'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={saving !== null}>Cancel</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BarChart3, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { FileAnalytics } from '@/lib/download-analytics';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+interface FileAnalyticsDialogProps {
+  fileId: string;
+  fileName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+export function FileAnalyticsDialog({ fileId, fileName, open, onOpenChange }: FileAnalyticsDialogProps) {
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<FileAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/dashboard/files/${fileId}/analytics?days=${days}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load analytics');
+        }
+        setAnalytics(data);
+      } catch (error) {
+        console.error('Error fetching analytics:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load analytics');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+  }, [fileId, days]);
+
+  const maxDaily = analytics ? Math.max(1, ...analytics.daily.map(d => d.downloads)) : 1;
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="sm:max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5" />
+            Download Analytics
+          </AlertDialogTitle>
+          <AlertDialogDescription className="truncate">
+            {fileName}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="flex gap-2">
+          {RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={days === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setDays(option)}
+            >
+              {option} days
+            </Button>
+          ))}
+        </div>
+
+        {isLoading && !analytics ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : analytics ? (
+          <div className={isLoading ? 'space-y-6 opacity-60' : 'space-y-6'}>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Total downloads</p>
+                <p className="text-2xl font-bold">{analytics.totals.downloads}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Unique ({analytics.days}d)</p>
+                <p className="text-2xl font-bold">{analytics.totals.uniqueDownloads}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Bandwidth served</p>
+                <p className="text-2xl font-bold">{formatBytes(analytics.totals.bandwidthBytes)}</p>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">
+                Downloads per day ({analytics.totals.rangeDownloads} in the last {analytics.days} days)
+              </p>
+              <div className="flex items-end gap-px h-32 border-b">
+                {analytics.daily.map((day) => (
+                  <div
+                    key={day.date}
+                    className="flex-1 bg-primary/80 hover:bg-primary rounded-t-sm min-h-px"
+                    style={{ height: `${(day.downloads / maxDaily) * 100}%` }}
+                    title={`${day.date}: ${day.downloads} downloads, ${day.uniqueDownloads} unique`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                <span>{analytics.daily[0]?.date}</span>
+                <span>{analytics.daily[analytics.daily.length - 1]?.date}</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <p className="text-sm font-medium mb-2">Top referrers</p>
+                {analytics.topReferrers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No downloads yet</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {analytics.topReferrers.map((referrer) => (
+                      <li key={referrer.host} className="flex justify-between gap-2">
+                        <span className="truncate">{referrer.host || 'Direct'}</span>
+                        <span className="text-muted-foreground">{referrer.downloads}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Clients</p>
+                {analytics.userAgents.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No recent downloads</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {analytics.userAgents.map((agent) => (
+                      <li key={agent.family} className="flex justify-between gap-2">
+                        <span className="truncate">{agent.family}</span>
+                        <span className="text-muted-foreground">{agent.downloads}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        <AlertDialogFooter className="gap-2">
+          <a href={`/api/dashboard/files/${fileId}/analytics?days=${days}&format=csv`} className="sm:mr-auto">
+            <Button variant="outline" className="gap-2 w-full">
+              <Download className="w-4 h-4" />
+              Export CSV
+            </Button>
+          </a>
+          <AlertDialogCancel>Close</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -93,21 +93,11 @@ export function FileCard({ file, variant = 'default' }: FileCardProps) {
     }
   };
 
-  const handleDownload = async () => {
-    // Increment download count
-    try {
-      await fetch(`/api/files/${file.id}`, {
-        method: 'POST',
-      });
-    } catch (error) {
-      console.error('Failed to increment download count:', error);
-    }
-
-    // Direct download by creating a temporary link
+  const handleDownload = () => {
+    // The download route counts the download and responds with an attachment,
+    // or redirects to the file page (e.g. to enter a password)
     const link = document.createElement('a');
-    link.href = file.uploadThingUrl;
-    link.setAttribute('download', file.name);
-    link.setAttribute('target', '_blank');
+    link.href = `/d/${file.id}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
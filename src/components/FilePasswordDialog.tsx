@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { Lock, LockOpen, Loader2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface FilePasswordDialogProps {
+  fileId: string;
+  fileName: string;
+  hasPassword: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: (hasPassword: boolean) => void;
+}
+
+export function FilePasswordDialog({ fileId, fileName, hasPassword, open, onOpenChange, onChange }: FilePasswordDialogProps) {
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const savePassword = async (newPassword: string | null) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/files/${fileId}/password`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: newPassword }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update password');
+      }
+
+      onChange(data.isPasswordProtected);
+      toast.success(newPassword === null ? 'Password removed' : hasPassword ? 'Password changed' : 'Password set');
+      setPassword('');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating password:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update password');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) setPassword('');
+        onOpenChange(isOpen);
+      }}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Lock className="w-5 h-5" />
+            {hasPassword ? 'Change Password' : 'Set Password'}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Visitors will need this password to download <span className="font-semibold text-foreground">{fileName}</span>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (password.length >= 4) savePassword(password);
+          }}
+        >
+          <Input
+            type="password"
+            autoComplete="new-password"
+            placeholder={hasPassword ? 'New password' : 'Password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={isSaving}
+            minLength={4}
+            maxLength={128}
+            required
+          />
+        </form>
+        <AlertDialogFooter className="gap-2">
+          {hasPassword && (
+            <AlertDialogCancel
+              disabled={isSaving}
+              onClick={(e) => {
+                e.preventDefault();
+                savePassword(null);
+              }}
+              className="gap-2 text-destructive hover:text-destructive sm:mr-auto"
+            >
+              <LockOpen className="w-4 h-4" />
+              Remove Password
+            </AlertDialogCancel>
+          )}
+          <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={isSaving || password.length < 4}
+            onClick={(e) => {
+              // Keep the dialog open until the request succeeds
+              e.preventDefault();
+              savePassword(password);
+            }}
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
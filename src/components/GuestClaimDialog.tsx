@@ -0,0 +1,158 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useUser } from '@clerk/nextjs';
+import { File, Loader2, UserCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { PLANS, formatPlanHours } from '@/lib/plans';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ClaimableFile {
+  id: string;
+  name: string;
+  size: number;
+  uploadDate: string;
+}
+
+// Fired after a claim so open pages (e.g. the dashboard) can refresh
+export const GUEST_FILES_CLAIMED_EVENT = 'liteshare:guest-files-claimed';
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+};
+
+/**
+ * Offers to move files uploaded as a guest on this browser into the
+ * account that just signed in
+ */
+export function GuestClaimDialog() {
+  const { isSignedIn, user } = useUser();
+  const [files, setFiles] = useState<ClaimableFile[]>([]);
+  const [totalSize, setTotalSize] = useState(0);
+  const [retentionHours, setRetentionHours] = useState(PLANS.free.defaultRetentionHours);
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchClaimable = async () => {
+      try {
+        const response = await fetch('/api/account/guest-files');
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data.files.length > 0) {
+          setFiles(data.files);
+          setTotalSize(data.totalSize);
+          setRetentionHours(data.retentionHours);
+          setOpen(true);
+        }
+      } catch (error) {
+        console.error('Error fetching guest files:', error);
+      }
+    };
+
+    if (isSignedIn) {
+      fetchClaimable();
+    }
+  }, [isSignedIn, user?.id]);
+
+  const claimFiles = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/account/guest-files', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add files to your account');
+      }
+
+      const count = data.claimed.length;
+      if (count > 0) {
+        toast.success(`Added ${count} ${count === 1 ? 'file' : 'files'} to your account`, {
+          description: `${formatFileSize(data.totalSize)} now kept for ${formatPlanHours(retentionHours)} from upload`,
+        });
+        window.dispatchEvent(new Event(GUEST_FILES_CLAIMED_EVENT));
+      } else if (data.skipped.length === 0) {
+        toast.info('These files have already expired or been claimed');
+      }
+      if (data.skipped.length > 0) {
+        toast.warning(`${data.skipped.length} ${data.skipped.length === 1 ? 'file' : 'files'} didn't fit in your storage quota`, {
+          description: 'They stay on this browser as guest uploads. Free up space and sign in again to add them.',
+        });
+      }
+      setOpen(false);
+    } catch (error) {
+      console.error('Error claiming guest files:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add files to your account');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const declineClaim = async () => {
+    setOpen(false);
+    try {
+      await fetch('/api/account/guest-files', { method: 'DELETE' });
+    } catch (error) {
+      console.error('Error declining guest files:', error);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && !isSaving && declineClaim()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <UserCheck className="w-5 h-5" />
+            Add your guest uploads?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            You uploaded {files.length} {files.length === 1 ? 'file' : 'files'} ({formatFileSize(totalSize)}) on this
+            device before signing in. Add them to your account to manage them from your dashboard and keep them
+            for {formatPlanHours(retentionHours)} instead of {formatPlanHours(PLANS.guest.defaultRetentionHours)}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+          {files.map((file) => (
+            <li key={file.id} className="flex items-center gap-2">
+              <File className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <span className="truncate flex-1">{file.name}</span>
+              <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSaving}>Keep as guest</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={isSaving}
+            onClick={(e) => {
+              // Keep the dialog open until the request succeeds
+              e.preventDefault();
+              claimFiles();
+            }}
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Adding...
+              </>
+            ) : (
+              'Add to my account'
+            )}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,53 +1,81 @@
 'use client';
 
-import { useCallback, useState, useEffect } from 'react';
+import { useCallback, useState, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { UploadCloud, File, X, CheckCircle2, AlertCircle, Link as LinkIcon, Loader2, Info, Check } from 'lucide-react';
+import { UploadCloud, File, X, CheckCircle2, AlertCircle, Link as LinkIcon, Loader2, Info, Check, Flame, Files, WifiOff, RefreshCw, Clock } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { formatFileSize } from '@/lib/mockData';
-import { UploadProgress } from '@/lib/types';
+import { ExpiryChoice, FileExpiryOption, FileVisibility, UploadProgress } from '@/lib/types';
+import { PLANS, formatPlanBytes, type PlanId } from '@/lib/plans';
+import { formatCountdown, isRateLimitErrorBody, type RateLimitErrorBody } from '@/lib/rate-limit-response';
 import { useUploadThing } from '@/lib/uploadthing';
 import { toast } from 'sonner';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@clerk/nextjs';
+import { VISIBILITY_OPTIONS } from '@/components/VisibilityDialog';
+import {
+  cancelResumableUpload,
+  listPendingUploads,
+  resumeUpload,
+  startResumableUpload,
+  UploadRequestError,
+  type ResumableUploadCallbacks,
+} from '@/lib/resumable-upload';
 
 interface UploadZoneProps {
   onUploadComplete?: (fileId: string) => void;
 }
 
-// Upload limits
-// Guest: 16MB max, 2 files, 24h storage
-// Auth: 64MB max, 8 files, 72h (3 days) storage
-const GUEST_LIMITS = {
-  maxFileSize: '16MB',
-  maxFileCount: 2,
-  expirationHours: 24,  // 24 hours
-  hourlyUploads: 10,
-  hourlyBytes: 32 * 1024 * 1024, // 32MB (2 files × 16MB)
-};
-
-const AUTH_LIMITS = {
-  maxFileSize: '64MB',
-  maxFileCount: 8,
-  expirationHours: 72,  // 72 hours (3 days)
-  hourlyUploads: 100,
-  hourlyBytes: 512 * 1024 * 1024, // 512MB (8 files × 64MB)
-};
+// Download limits offered at upload time (null = unlimited, 1 = burn after reading)
+const DOWNLOAD_LIMIT_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Unlimited' },
+  { value: 1, label: 'Delete after first download' },
+  { value: 10, label: '10 downloads' },
+];
+
+// Remembers the visibility the user last picked as their default
+const VISIBILITY_STORAGE_KEY = 'liteshare:defaultVisibility';
+
+// Remembers whether the user prefers resumable (chunked) uploads
+const RESUMABLE_STORAGE_KEY = 'liteshare:resumableUploads';
+
+// Standard uploads go straight from the browser to UploadThing, so with any
+// other storage provider every upload is sent through the server in chunks
+const DIRECT_UPLOADS_AVAILABLE = process.env.NEXT_PUBLIC_STORAGE_PROVIDER !== 'local';
+
+interface ResumableUploadJob {
+  fileName: string;
+  run: (callbacks: ResumableUploadCallbacks) => Promise<string>;
+}
 
 interface RateLimitStatus {
-  remaining: number;
-  limit: number;
-  remainingBytes: number;
-  totalBytes: number;
-  maxBytes: number;
-  resetIn: string;
-  resetAt: number;
-  percentageUsed: number;
-  uploadPercentageUsed: number;
-  storagePercentageUsed: number;
+  plan: PlanId;
   isAuthenticated: boolean;
+  // Uploads in the current 24-hour window
+  rateLimit: {
+    limit: number;
+    remaining: number;
+    maxBytes: number;
+    usedBytes: number;
+    remainingBytes: number;
+    resetAt: number;
+    resetIn: string;
+    uploadPercentageUsed: number;
+    bytesPercentageUsed: number;
+  };
+  // Everything currently kept (quotaBytes/remainingBytes: null = unlimited)
+  storage: {
+    usedBytes: number;
+    fileCount: number;
+    reservedBytes: number;
+    quotaBytes: number | null;
+    remainingBytes: number | null;
+    percentageUsed: number;
+  };
+  expiryOptions: ExpiryChoice[];
+  defaultExpiry: FileExpiryOption;
 }
 
 export function UploadZone({ onUploadComplete }: UploadZoneProps) {
@@ -56,25 +84,221 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
   const [uploads, setUploads] = useState<UploadProgress[]>([]);
   const [rateLimitStatus, setRateLimitStatus] = useState<RateLimitStatus | null>(null);
   const [loadingRateLimit, setLoadingRateLimit] = useState(true);
+  const [maxDownloads, setMaxDownloads] = useState<number | null>(null);
+  const [visibility, setVisibility] = useState<FileVisibility>('unlisted');
+  const [expiresIn, setExpiresIn] = useState<FileExpiryOption | null>(null);
+  const [bundleId, setBundleId] = useState<string | null>(null);
+  const [bundleCopied, setBundleCopied] = useState(false);
+  const [resumable, setResumable] = useState(false);
+  const [activeResumableRuns, setActiveResumableRuns] = useState(0);
+  const [rateLimited, setRateLimited] = useState<RateLimitErrorBody | null>(null);
+  const [secondsUntilReset, setSecondsUntilReset] = useState(0);
+  const abortControllers = useRef(new Map<string, AbortController>());
+  const pendingChecked = useRef(false);
+
+  // Restore the user's default visibility and upload mode
+  useEffect(() => {
+    const saved = localStorage.getItem(VISIBILITY_STORAGE_KEY);
+    if (VISIBILITY_OPTIONS.some(option => option.value === saved)) {
+      setVisibility(saved as FileVisibility);
+    }
+    setResumable(localStorage.getItem(RESUMABLE_STORAGE_KEY) === 'true');
+  }, []);
+
+  const changeVisibility = (value: FileVisibility) => {
+    setVisibility(value);
+    localStorage.setItem(VISIBILITY_STORAGE_KEY, value);
+  };
+
+  const changeResumable = (value: boolean) => {
+    setResumable(value);
+    localStorage.setItem(RESUMABLE_STORAGE_KEY, String(value));
+  };
+
+  const fetchRateLimitStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/rate-limit');
+      if (response.ok) {
+        const data = await response.json();
+        setRateLimitStatus(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching rate limit status:', error);
+    } finally {
+      setLoadingRateLimit(false);
+    }
+  }, []);
 
   // Fetch rate limit status on mount and when auth status changes
   useEffect(() => {
-    const fetchRateLimitStatus = async () => {
+    fetchRateLimitStatus();
+  }, [isSignedIn, fetchRateLimitStatus]);
+
+  // Count down to the end of a rate limit, then refresh the limits
+  useEffect(() => {
+    if (!rateLimited) return;
+
+    const tick = () => {
+      const seconds = Math.ceil((rateLimited.resetAt - Date.now()) / 1000);
+      if (seconds <= 0) {
+        setRateLimited(null);
+        fetchRateLimitStatus();
+        return;
+      }
+      setSecondsUntilReset(seconds);
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [rateLimited, fetchRateLimitStatus]);
+
+  // A 429 from either upload path: start the countdown and say which limit was hit
+  const showRateLimited = useCallback((body: RateLimitErrorBody) => {
+    setRateLimited(body);
+    toast.error(
+      body.reason === 'rate_limit_bytes' ? 'Daily upload size limit reached' : 'Daily upload limit reached',
+      {
+        description: `You can upload again in ${formatCountdown(body.retryAfter)}.`,
+        duration: 8000,
+      }
+    );
+  }, []);
+
+  // Limits of the user's plan; assume the plan for the sign-in state until the status has loaded
+  const plan = PLANS[rateLimitStatus?.plan ?? (isSignedIn ? 'free' : 'guest')];
+
+  // The picked expiry, or the plan's default until one is picked (or if it's no longer allowed)
+  const expiryOptions = rateLimitStatus?.expiryOptions ?? [];
+  const selectedExpiry = expiryOptions.find(option => option.value === expiresIn) ??
+    expiryOptions.find(option => option.value === rateLimitStatus?.defaultExpiry);
+
+  // Mark uploads as done, share multi-file uploads as a bundle and refresh the limits
+  const finishUploads = useCallback(async (uploaded: { fileName: string; fileId: string }[]) => {
+    for (const { fileName, fileId } of uploaded) {
+      // Update upload status with file ID
+      setUploads(prev => prev.map(u =>
+        u.fileName === fileName
+          ? { ...u, fileId, status: 'completed' }
+          : u
+      ));
+
+      toast.success(
+        `File uploaded! ${!isSignedIn ? 'Sign in for longer storage.' : ''}`,
+        selectedExpiry && {
+          description: selectedExpiry.value === 'never'
+            ? 'File will not expire'
+            : `File will expire in ${selectedExpiry.label.toLowerCase()}`,
+        }
+      );
+
+      if (onUploadComplete) {
+        onUploadComplete(fileId);
+      }
+    }
+
+    // Share multi-file uploads under a single bundle link
+    if (uploaded.length > 1) {
       try {
-        const response = await fetch('/api/rate-limit');
-        if (response.ok) {
-          const data = await response.json();
-          setRateLimitStatus(data.data);
+        const response = await fetch('/api/bundles', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ fileIds: uploaded.map(u => u.fileId), visibility }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to create bundle');
         }
+        setBundleId(data.id);
       } catch (error) {
-        console.error('Error fetching rate limit status:', error);
-      } finally {
-        setLoadingRateLimit(false);
+        console.error('Error creating bundle:', error);
+        toast.error('Files uploaded, but the bundle link could not be created');
       }
+    }
+
+    // Refresh rate limit status after ALL files are saved
+    await fetchRateLimitStatus();
+  }, [isSignedIn, onUploadComplete, visibility, selectedExpiry, fetchRateLimitStatus]);
+
+  // Run resumable uploads one at a time; each keeps retrying on its own while the connection is down
+  const runResumableUploads = useCallback(async (jobs: ResumableUploadJob[]) => {
+    setActiveResumableRuns(n => n + 1);
+    const uploaded: { fileName: string; fileId: string }[] = [];
+
+    const updateUpload = (fileName: string, update: Partial<UploadProgress>) => {
+      setUploads(prev => prev.map(u => u.fileName === fileName ? { ...u, ...update } : u));
     };
 
-    fetchRateLimitStatus();
-  }, [isSignedIn]);
+    for (const job of jobs) {
+      const controller = new AbortController();
+      abortControllers.current.set(job.fileName, controller);
+
+      try {
+        const fileId = await job.run({
+          signal: controller.signal,
+          onSessionCreated: (sessionId) => updateUpload(job.fileName, { sessionId }),
+          onStateChange: (state) => updateUpload(job.fileName, { status: state }),
+          onProgress: ({ uploadedBytes, totalBytes, bytesPerSecond }) => updateUpload(job.fileName, {
+            progress: totalBytes > 0 ? (uploadedBytes / totalBytes) * 100 : 0,
+            speed: bytesPerSecond > 0 ? `${formatFileSize(bytesPerSecond)}/s` : undefined,
+          }),
+        });
+        uploaded.push({ fileName: job.fileName, fileId });
+      } catch (error) {
+        // Cancelled by the user, the row is already gone
+        if (error instanceof DOMException && error.name === 'AbortError') continue;
+
+        console.error('Resumable upload error:', error);
+        updateUpload(job.fileName, { status: 'error' });
+        if (error instanceof UploadRequestError && error.rateLimit) {
+          showRateLimited(error.rateLimit);
+          continue;
+        }
+        toast.error(`Upload of ${job.fileName} failed`, {
+          description: error instanceof Error ? error.message : undefined,
+          duration: 8000,
+        });
+      } finally {
+        abortControllers.current.delete(job.fileName);
+      }
+    }
+
+    await finishUploads(uploaded);
+    setActiveResumableRuns(n => n - 1);
+  }, [finishUploads, showRateLimited]);
+
+  // Pick up uploads interrupted by a reload or a closed tab
+  useEffect(() => {
+    if (pendingChecked.current) return;
+    pendingChecked.current = true;
+
+    listPendingUploads()
+      .then((pending) => {
+        if (pending.length === 0) return;
+
+        setUploads(prev => [...prev, ...pending.map(p => ({
+          fileName: p.file.name,
+          sessionId: p.sessionId,
+          progress: 0,
+          status: 'resuming' as const,
+        }))]);
+        toast.info(`Resuming ${pending.length} interrupted ${pending.length === 1 ? 'upload' : 'uploads'}`);
+
+        runResumableUploads(pending.map(p => ({
+          fileName: p.file.name,
+          run: (callbacks) => resumeUpload(p, callbacks),
+        })));
+      })
+      .catch((error) => console.error('Error loading interrupted uploads:', error));
+  }, [runResumableUploads]);
+
+  const cancelUpload = (upload: UploadProgress) => {
+    abortControllers.current.get(upload.fileName)?.abort();
+    if (upload.sessionId) {
+      cancelResumableUpload(upload.sessionId);
+    }
+    setUploads(prev => prev.filter(u => u.fileName !== upload.fileName));
+  };
 
   // Use different endpoints based on auth status
   const { startUpload, isUploading } = useUploadThing(
@@ -83,73 +307,45 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
       onClientUploadComplete: async (res) => {
         console.log('Upload completed:', res);
 
-        // Save file metadata to database for each uploaded file
+        const uploaded: { fileName: string; fileId: string }[] = [];
+
+        // The server registers each file in onUploadComplete and returns its ID
         for (const file of res) {
-          try {
-            const response = await fetch('/api/files', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                fileName: file.name,
-                fileSize: file.size,
-                fileType: file.type,
-                uploadThingId: file.key,
-                uploadThingUrl: file.url,
-                isGuest: !isSignedIn,
-              }),
-            });
-
-            if (!response.ok) {
-              const errorData = await response.json();
-              console.error('Server error response:', errorData);
-              throw new Error(errorData.error || errorData.details || 'Failed to save file metadata');
-            }
-
-            const savedFile = await response.json();
-
-            // Update upload status with file ID
-            setUploads(prev => prev.map(u =>
-              u.fileName === file.name
-                ? { ...u, fileId: savedFile.id, status: 'completed' }
-                : u
-            ));
+          const fileId = file.serverData?.fileId;
 
-            const expirationHours = !isSignedIn ? GUEST_LIMITS.expirationHours : AUTH_LIMITS.expirationHours;
-            toast.success(
-              `File uploaded! ${!isSignedIn ? 'Sign in for longer storage.' : ''}`,
-              {
-                description: `File will expire in ${expirationHours} hours`,
-              }
-            );
-
-            if (onUploadComplete) {
-              onUploadComplete(savedFile.id);
-            }
-          } catch (error) {
-            console.error('Error saving metadata:', error);
+          if (!fileId) {
+            console.error('Upload finished without a file ID:', file.name);
             setUploads(prev => prev.map(u =>
               u.fileName === file.name
                 ? { ...u, status: 'error' }
                 : u
             ));
-            toast.error(`Failed to save metadata for ${file.name}`);
+            toast.error(`Failed to save ${file.name}`);
+            continue;
           }
-        }
 
-        // Refresh rate limit status after ALL metadata is saved
-        try {
-          const response = await fetch('/api/rate-limit');
-          if (response.ok) {
-            const data = await response.json();
-            setRateLimitStatus(data.data);
-          }
-        } catch (error) {
-          console.error('Error refreshing rate limit:', error);
+          uploaded.push({ fileName: file.name, fileId });
         }
+
+        await finishUploads(uploaded);
       },
       onUploadError: (error) => {
         console.error('Upload error:', error);
 
+        const markFailed = () => setUploads(prev => prev.map(u =>
+          u.status === 'uploading'
+            ? { ...u, status: 'error' }
+            : u
+        ));
+
+        // Rate limit errors come with a structured body (see api/uploadthing/route.ts)
+        const body = error.cause as { rateLimit?: unknown } | undefined;
+        if (isRateLimitErrorBody(body?.rateLimit)) {
+          showRateLimited(body.rateLimit);
+          markFailed();
+          return;
+        }
+
         // Parse error message for better display
         let errorMessage = 'Upload failed. Please try again.';
         let errorDescription: string | undefined;
@@ -157,12 +353,8 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
         if (error instanceof Error) {
           const errorStr = error.message;
 
-          // Check for rate limit errors
-          if (errorStr.includes('Rate limit exceeded')) {
-            errorMessage = 'Rate Limit Exceeded';
-            errorDescription = errorStr;
-          } else if (errorStr.includes('Storage limit exceeded')) {
-            errorMessage = 'Storage Limit Exceeded';
+          if (errorStr.includes('Storage quota exceeded')) {
+            errorMessage = 'Storage Quota Exceeded';
             errorDescription = errorStr;
           } else if (errorStr.includes('Too many files')) {
             errorMessage = 'Too Many Files';
@@ -181,11 +373,7 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
           duration: 8000,
         });
 
-        setUploads(prev => prev.map(u =>
-          u.status === 'uploading'
-            ? { ...u, status: 'error' }
-            : u
-        ));
+        markFailed();
       },
       onUploadBegin: () => {
         console.log('Upload beginning');
@@ -195,11 +383,9 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     // Check file count limits
-    const limits = isSignedIn ? AUTH_LIMITS : GUEST_LIMITS;
-
-    if (acceptedFiles.length > limits.maxFileCount) {
+    if (acceptedFiles.length > plan.maxFilesPerUpload) {
       toast.error(
-        `Too many files! Maximum ${limits.maxFileCount} files for ${isSignedIn ? 'authenticated users' : 'guests'}.`,
+        `Too many files! Maximum ${plan.maxFilesPerUpload} files per upload on the ${plan.name} plan.`,
         {
           description: !isSignedIn ? 'Sign in to upload more files.' : undefined,
           duration: 5000,
@@ -208,15 +394,34 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
       return;
     }
 
+    // Still rate limited, the server would refuse the upload
+    if (rateLimited) {
+      toast.error('Upload limit reached', {
+        description: `You can upload again in ${formatCountdown((rateLimited.resetAt - Date.now()) / 1000)}.`,
+      });
+      return;
+    }
+
+    // Check the storage quota for the whole drop
+    const storageLeft = rateLimitStatus?.storage.remainingBytes ?? null;
+    const dropBytes = acceptedFiles.reduce((sum, file) => sum + file.size, 0);
+    if (storageLeft !== null && dropBytes > storageLeft) {
+      toast.error('Not enough storage left', {
+        description: `These files need ${formatBytes(dropBytes)} but only ${formatBytes(storageLeft)} of your ${plan.name} plan storage is free. Delete files or wait for them to expire.`,
+        duration: 6000,
+      });
+      return;
+    }
+
     let hasInvalidFile = false;
     acceptedFiles.forEach(file => {
       // Check file size
-      if (file.size > parseSize(limits.maxFileSize)) {
+      if (file.size > plan.maxFileSize) {
         hasInvalidFile = true;
         toast.error(
           `File ${file.name} is too large!`,
           {
-            description: `Maximum ${limits.maxFileSize} for ${isSignedIn ? 'authenticated users' : 'guests'}. Your file is ${formatBytes(file.size)}. ${!isSignedIn ? 'Sign in for higher limits.' : ''}`,
+            description: `Maximum ${formatPlanBytes(plan.maxFileSize)} on the ${plan.name} plan. Your file is ${formatBytes(file.size)}. ${!isSignedIn ? 'Sign in for higher limits.' : ''}`,
             duration: 6000,
           }
         );
@@ -232,19 +437,37 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
     });
 
     // Filter valid files and start the upload
-    const validFiles = acceptedFiles.filter(f => f.size <= parseSize(limits.maxFileSize));
+    const validFiles = acceptedFiles.filter(f => f.size <= plan.maxFileSize);
     if (validFiles.length > 0) {
-      startUpload(validFiles);
+      setBundleId(null);
+      if (resumable || !DIRECT_UPLOADS_AVAILABLE) {
+        runResumableUploads(validFiles.map(file => ({
+          fileName: file.name,
+          run: (callbacks) => startResumableUpload(file, { maxDownloads, visibility, expiresIn: selectedExpiry?.value }, callbacks),
+        })));
+      } else {
+        startUpload(validFiles, { maxDownloads, visibility, expiresIn: selectedExpiry?.value });
+      }
     }
-  }, [startUpload, isSignedIn]);
+  }, [startUpload, runResumableUploads, isSignedIn, plan, rateLimitStatus, rateLimited, maxDownloads, visibility, selectedExpiry, resumable]);
+
+  const isBusy = isUploading || activeResumableRuns > 0;
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     multiple: true,
-    maxSize: isSignedIn ? 64 * 1024 * 1024 : 16 * 1024 * 1024, // 64MB for auth, 16MB for guests
-    disabled: isUploading,
+    maxSize: plan.maxFileSize,
+    disabled: isBusy,
   });
 
+  const copyBundleLink = () => {
+    if (!bundleId) return;
+    navigator.clipboard.writeText(`${window.location.origin}/b/${bundleId}`);
+    setBundleCopied(true);
+    toast.success('Bundle link copied to clipboard');
+    setTimeout(() => setBundleCopied(false), 2000);
+  };
+
   const removeUpload = (fileName: string) => {
     setUploads(prev => prev.filter(u => u.fileName !== fileName));
   };
@@ -268,8 +491,6 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
     }, 2000);
   };
 
-  const limits = isSignedIn ? AUTH_LIMITS : GUEST_LIMITS;
-
   // Helper to format bytes
   function formatBytes(bytes: number): string {
     if (bytes === 0) return '0 B';
@@ -288,52 +509,42 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
             <Info className="w-4 h-4 text-muted-foreground" />
             <h3 className="text-sm font-medium">Upload Limit Status</h3>
             <span className="text-xs text-muted-foreground ml-auto">
-              Resets in {rateLimitStatus.resetIn}
+              Daily limit resets in {rateLimitStatus.rateLimit.resetIn}
             </span>
           </div>
 
           <div className="space-y-3">
-            {/* Upload Count Progress */}
-            <div>
-              <div className="flex items-center justify-between text-xs mb-1">
-                <span className="text-muted-foreground">Uploads used</span>
-                <span className="font-medium">
-                  {rateLimitStatus.limit - rateLimitStatus.remaining} / {rateLimitStatus.limit}
-                </span>
-              </div>
-              <div className="relative h-2 bg-muted rounded-full overflow-hidden">
-                <div
-                  className={cn(
-                    'absolute inset-y-0 left-0 rounded-full transition-all duration-300',
-                    rateLimitStatus.uploadPercentageUsed > 90 ? 'bg-red-500' :
-                      rateLimitStatus.uploadPercentageUsed > 70 ? 'bg-amber-500' :
-                        'bg-green-500'
-                  )}
-                  style={{ width: `${rateLimitStatus.uploadPercentageUsed}%` }}
-                />
-              </div>
-            </div>
+            <LimitBar
+              label="Uploads today"
+              value={`${rateLimitStatus.rateLimit.limit - rateLimitStatus.rateLimit.remaining} / ${rateLimitStatus.rateLimit.limit}`}
+              percentage={rateLimitStatus.rateLimit.uploadPercentageUsed}
+              color="bg-green-500"
+            />
+            <LimitBar
+              label="Uploaded today"
+              value={`${formatBytes(rateLimitStatus.rateLimit.usedBytes)} / ${formatBytes(rateLimitStatus.rateLimit.maxBytes)}`}
+              percentage={rateLimitStatus.rateLimit.bytesPercentageUsed}
+              color="bg-green-500"
+            />
+            <LimitBar
+              label={`Storage used (${rateLimitStatus.storage.fileCount} ${rateLimitStatus.storage.fileCount === 1 ? 'file' : 'files'})`}
+              value={`${formatBytes(rateLimitStatus.storage.usedBytes)} / ${rateLimitStatus.storage.quotaBytes === null ? 'Unlimited' : formatBytes(rateLimitStatus.storage.quotaBytes)}`}
+              percentage={rateLimitStatus.storage.percentageUsed}
+              color="bg-blue-500"
+            />
+            <p className="text-xs text-muted-foreground">
+              Storage is freed when files are deleted or expire.
+            </p>
 
-            {/* Storage Progress */}
-            <div>
-              <div className="flex items-center justify-between text-xs mb-1">
-                <span className="text-muted-foreground">Storage used</span>
-                <span className="font-medium">
-                  {formatBytes(rateLimitStatus.totalBytes)} / {formatBytes(rateLimitStatus.maxBytes)}
+            {rateLimited && (
+              <p className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1.5">
+                <Clock className="w-3.5 h-3.5" />
+                <span>
+                  {rateLimited.reason === 'rate_limit_bytes' ? 'Daily upload size limit reached' : 'Daily upload limit reached'}
+                  {' '}· you can upload again in {formatCountdown(secondsUntilReset)}
                 </span>
-              </div>
-              <div className="relative h-2 bg-muted rounded-full overflow-hidden">
-                <div
-                  className={cn(
-                    'absolute inset-y-0 left-0 rounded-full transition-all duration-300',
-                    rateLimitStatus.storagePercentageUsed > 90 ? 'bg-red-500' :
-                      rateLimitStatus.storagePercentageUsed > 70 ? 'bg-amber-500' :
-                        'bg-blue-500'
-                  )}
-                  style={{ width: `${rateLimitStatus.storagePercentageUsed}%` }}
-                />
-              </div>
-            </div>
+              </p>
+            )}
 
             {!isSignedIn && (
               <p className="text-xs text-muted-foreground pt-2 border-t mt-2 flex items-center gap-1.5">
@@ -355,7 +566,7 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
           isDragActive
             ? 'border-primary bg-primary/5 scale-[1.02]'
             : 'border-muted-foreground/25 hover:border-primary/50 hover:bg-muted/50',
-          isUploading && 'opacity-50 pointer-events-none'
+          isBusy && 'opacity-50 pointer-events-none'
         )}
       >
         <input {...getInputProps()} />
@@ -374,7 +585,7 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
               {isDragActive ? 'Drop files here' : 'Drag & drop files here'}
             </p>
             <p className="text-sm text-muted-foreground">
-              or click to select (max {limits.maxFileSize})
+              or click to select (max {formatPlanBytes(plan.maxFileSize)})
             </p>
           </div>
 
@@ -384,15 +595,112 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
         </div>
       </div>
 
+      {/* Visibility */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground">Visibility:</span>
+        {VISIBILITY_OPTIONS.map((option) => {
+          const Icon = option.icon;
+          return (
+            <Button
+              key={option.value}
+              variant={visibility === option.value ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs gap-1.5"
+              onClick={() => changeVisibility(option.value)}
+              disabled={isBusy}
+              title={option.description}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {option.label}
+            </Button>
+          );
+        })}
+      </div>
+
+      {/* Download Limit */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground flex items-center gap-1.5">
+          <Flame className="w-3.5 h-3.5" />
+          Download limit:
+        </span>
+        {DOWNLOAD_LIMIT_OPTIONS.map((option) => (
+          <Button
+            key={option.label}
+            variant={maxDownloads === option.value ? 'default' : 'outline'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setMaxDownloads(option.value)}
+            disabled={isBusy}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* Expiry */}
+      {expiryOptions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground flex items-center gap-1.5">
+            <Clock className="w-3.5 h-3.5" />
+            Expires after:
+          </span>
+          {expiryOptions.map((option) => (
+            <Button
+              key={option.value}
+              variant={selectedExpiry?.value === option.value ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setExpiresIn(option.value)}
+              disabled={isBusy}
+            >
+              {option.label}
+            </Button>
+          ))}
+          {!isSignedIn && (
+            <span className="text-xs text-muted-foreground">Sign in to keep files longer</span>
+          )}
+        </div>
+      )}
+
+      {/* Upload Mode */}
+      {DIRECT_UPLOADS_AVAILABLE && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground flex items-center gap-1.5">
+            <RefreshCw className="w-3.5 h-3.5" />
+            Upload mode:
+          </span>
+          <Button
+            variant={!resumable ? 'default' : 'outline'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => changeResumable(false)}
+            disabled={isBusy}
+          >
+            Standard
+          </Button>
+          <Button
+            variant={resumable ? 'default' : 'outline'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => changeResumable(true)}
+            disabled={isBusy}
+            title="Sends files in chunks and picks up where it left off after a dropped connection or a page reload"
+          >
+            Resumable
+          </Button>
+        </div>
+      )}
+
       {uploads.length > 0 && (
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <h3 className="text-sm font-medium flex items-center gap-2">
               <span className={cn(
                 'flex h-2 w-2 rounded-full',
-                uploads.some(u => u.status === 'uploading') ? 'bg-blue-500 animate-pulse' :
-                  uploads.some(u => u.status === 'error') ? 'bg-red-500' :
-                    'bg-green-500'
+                uploads.some(u => u.status === 'uploading' || u.status === 'resuming') ? 'bg-blue-500 animate-pulse' :
+                  uploads.some(u => u.status === 'paused') ? 'bg-amber-500' :
+                    uploads.some(u => u.status === 'error') ? 'bg-red-500' :
+                      'bg-green-500'
               )} />
               Upload Progress
             </h3>
@@ -400,6 +708,18 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
               {uploads.filter(u => u.status === 'completed').length} / {uploads.length} completed
             </span>
           </div>
+          {bundleId && (
+            <div className="flex items-center gap-3 p-3 rounded-xl border border-primary/30 bg-primary/5">
+              <Files className="w-5 h-5 text-primary flex-shrink-0" />
+              <p className="flex-1 text-sm">
+                All files from this upload are shared under one link
+              </p>
+              <Button variant="outline" size="sm" className="gap-2" onClick={copyBundleLink}>
+                {bundleCopied ? <Check className="w-4 h-4" /> : <LinkIcon className="w-4 h-4" />}
+                {bundleCopied ? 'Copied!' : 'Copy bundle link'}
+              </Button>
+            </div>
+          )}
           {uploads.map((upload, index) => (
             <div
               key={index}
@@ -409,7 +729,8 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
                 'hover:shadow-md hover:shadow-black/5 dark:hover:shadow-black/20',
                 upload.status === 'completed' ? 'bg-green-500/5 border-green-500/30' :
                   upload.status === 'error' ? 'bg-red-500/5 border-red-500/30' :
-                    'bg-gradient-to-br from-card to-muted/30 border-primary/20'
+                    upload.status === 'paused' ? 'bg-amber-500/5 border-amber-500/30' :
+                      'bg-gradient-to-br from-card to-muted/30 border-primary/20'
               )}
             >
               <div className={cn(
@@ -418,12 +739,15 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
                 'shadow-sm',
                 upload.status === 'completed' ? 'bg-gradient-to-br from-green-500 to-green-600 text-white scale-110' :
                   upload.status === 'error' ? 'bg-gradient-to-br from-red-500 to-red-600 text-white' :
-                    'bg-gradient-to-br from-primary/20 to-primary/10 text-primary'
+                    upload.status === 'paused' ? 'bg-gradient-to-br from-amber-500/20 to-amber-500/10 text-amber-600 dark:text-amber-400' :
+                      'bg-gradient-to-br from-primary/20 to-primary/10 text-primary'
               )}>
                 {upload.status === 'completed' ? (
                   <CheckCircle2 className="w-6 h-6 animate-in zoom-in duration-300" />
                 ) : upload.status === 'error' ? (
                   <AlertCircle className="w-6 h-6 animate-in zoom-in duration-300" />
+                ) : upload.status === 'paused' ? (
+                  <WifiOff className="w-6 h-6" />
                 ) : (
                   <div className="relative">
                     <Loader2 className="w-6 h-6 animate-spin" />
@@ -431,7 +755,7 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
                   </div>
                 )}
                 {/* Progress ring for uploading state */}
-                {(upload.status === 'uploading' || upload.status === 'pending') && upload.progress > 0 && (
+                {isInProgress(upload) && upload.progress > 0 && (
                   <svg className="absolute inset-0 w-full h-full -rotate-90" viewBox="0 0 100 100">
                     <circle
                       cx="50"
@@ -473,10 +797,15 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
                           <CheckCircle2 className="w-3 h-3" />
                           Upload complete
                         </span>
+                      ) : upload.status === 'paused' ? (
+                        <span className="text-xs font-medium text-amber-600 dark:text-amber-400 flex items-center gap-1">
+                          <WifiOff className="w-3 h-3" />
+                          Connection lost, waiting to resume
+                        </span>
                       ) : (
                         <span className="text-xs font-medium text-blue-600 dark:text-blue-400 flex items-center gap-1">
                           <Loader2 className="w-3 h-3 animate-spin" />
-                          {upload.status === 'uploading' ? 'Uploading...' : 'Preparing...'}
+                          {upload.status === 'uploading' ? 'Uploading...' : upload.status === 'resuming' ? 'Resuming...' : 'Preparing...'}
                         </span>
                       )}
                     </div>
@@ -519,16 +848,33 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
                         <span className="hidden sm:inline text-xs font-medium">Dismiss</span>
                       </Button>
                     ) : (
-                      <span className={cn(
-                        'text-xs font-medium px-2.5 py-1 rounded-full transition-colors',
-                        upload.status === 'uploading' ? 'bg-blue-500/15 text-blue-600 dark:text-blue-400' : 'bg-amber-500/15 text-amber-600 dark:text-amber-400'
-                      )}>
-                        {upload.status === 'uploading' ? 'Uploading' : 'Pending'}
-                      </span>
+                      <>
+                        <span className={cn(
+                          'text-xs font-medium px-2.5 py-1 rounded-full transition-colors',
+                          upload.status === 'uploading' || upload.status === 'resuming'
+                            ? 'bg-blue-500/15 text-blue-600 dark:text-blue-400'
+                            : 'bg-amber-500/15 text-amber-600 dark:text-amber-400'
+                        )}>
+                          {upload.status === 'uploading' ? 'Uploading' :
+                            upload.status === 'paused' ? 'Paused' :
+                              upload.status === 'resuming' ? 'Resuming' : 'Pending'}
+                        </span>
+                        {upload.sessionId && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 rounded-lg text-muted-foreground hover:text-foreground"
+                            onClick={() => cancelUpload(upload)}
+                            title="Cancel upload"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </>
                     )}
                   </div>
                 </div>
-                {(upload.status === 'uploading' || upload.status === 'pending') && (
+                {isInProgress(upload) && (
                   <div className="relative pt-1">
                     <Progress
                       value={upload.progress}
@@ -539,6 +885,7 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
                     />
                     {upload.progress > 0 && (
                       <div className="absolute right-0 top-0 text-xs font-medium text-muted-foreground transition-all">
+                        {upload.status === 'uploading' && upload.speed ? `${upload.speed} · ` : ''}
                         {Math.round(upload.progress)}%
                       </div>
                     )}
@@ -565,19 +912,28 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
   );
 }
 
-// Helper function to parse size strings like "16MB" to bytes
-function parseSize(sizeStr: string): number {
-  const match = sizeStr.match(/^(\d+)([KMGT]?B)$/);
-  if (!match) return 0;
-
-  const value = parseInt(match[1]);
-  const unit = match[2];
+// One usage bar of the limit status panel
+function LimitBar({ label, value, percentage, color }: { label: string; value: string; percentage: number; color: string }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="font-medium">{value}</span>
+      </div>
+      <div className="relative h-2 bg-muted rounded-full overflow-hidden">
+        <div
+          className={cn(
+            'absolute inset-y-0 left-0 rounded-full transition-all duration-300',
+            percentage > 90 ? 'bg-red-500' : percentage > 70 ? 'bg-amber-500' : color
+          )}
+          style={{ width: `${Math.min(100, percentage)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
 
-  switch (unit) {
-    case 'KB': return value * 1024;
-    case 'MB': return value * 1024 * 1024;
-    case 'GB': return value * 1024 * 1024 * 1024;
-    case 'TB': return value * 1024 * 1024 * 1024 * 1024;
-    default: return value;
-  }
+// Whether an upload is still running (or waiting to resume)
+function isInProgress(upload: UploadProgress): boolean {
+  return ['pending', 'uploading', 'paused', 'resuming'].includes(upload.status);
 }
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { EyeOff, Globe, Link as LinkIcon, Loader2, type LucideIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { FileVisibility } from '@/lib/types';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+export const VISIBILITY_OPTIONS: { value: FileVisibility; label: string; description: string; icon: LucideIcon }[] = [
+  { value: 'private', label: 'Private', description: 'Only you can open it', icon: EyeOff },
+  { value: 'unlisted', label: 'Unlisted', description: 'Anyone with the link', icon: LinkIcon },
+  { value: 'public', label: 'Public', description: 'Listed on Browse', icon: Globe },
+];
+
+/**
+ * Icon for a visibility setting
+ */
+export function VisibilityIcon({ visibility, className }: { visibility: FileVisibility; className?: string }) {
+  const Icon = VISIBILITY_OPTIONS.find(option => option.value === visibility)?.icon ?? LinkIcon;
+  return <Icon className={className} />;
+}
+
+interface VisibilityDialogProps {
+  fileId: string;
+  fileName: string;
+  visibility: FileVisibility;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: (visibility: FileVisibility) => void;
+}
+
+export function VisibilityDialog({ fileId, fileName, visibility, open, onOpenChange, onChange }: VisibilityDialogProps) {
+  const [saving, setSaving] = useState<FileVisibility | null>(null);
+
+  const saveVisibility = async (newVisibility: FileVisibility) => {
+    if (newVisibility === visibility) {
+      onOpenChange(false);
+      return;
+    }
+
+    setSaving(newVisibility);
+    try {
+      const response = await fetch(`/api/files/${fileId}/visibility`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ visibility: newVisibility }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update visibility');
+      }
+
+      onChange(data.visibility);
+      toast.success(`File is now ${data.visibility}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating visibility:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update visibility');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Who can see this file?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Choose who can open <span className="font-semibold text-foreground">{fileName}</span>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="grid gap-2">
+          {VISIBILITY_OPTIONS.map((option) => {
+            const Icon = option.icon;
+            return (
+              <button
+                key={option.value}
+                type="button"
+                disabled={saving !== null}
+                onClick={() => saveVisibility(option.value)}
+                className={cn(
+                  'flex items-center gap-3 rounded-lg border p-3 text-left transition-colors hover:bg-muted/50 disabled:opacity-60',
+                  visibility === option.value && 'border-primary bg-muted/50'
+                )}
+              >
+                {saving === option.value ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Icon className="w-5 h-5" />
+                )}
+                <div>
+                  <p className="text-sm font-medium">{option.label}</p>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={saving !== null}>Cancel</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
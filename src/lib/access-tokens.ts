@@ -0,0 +1,187 @@
+/**
+ * Personal Access Tokens
+ * Let scripts call the /api/v1 API without a Clerk browser session. A token
+ * is shown once when it is created; only its SHA-256 hash is stored. Each
+ * token carries scopes (read, upload, delete) limiting what it can do, and
+ * acts as its owner for ownership checks and rate limits.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { NextResponse } from 'next/server';
+import type { AccessTokenScope } from '@prisma/client';
+import { prisma } from './db';
+import { applyRateLimit, type RouteRateLimitName } from './route-rate-limit';
+import { ensureUserRecord } from './users';
+
+export type { AccessTokenScope };
+
+export const ACCESS_TOKEN_SCOPES: AccessTokenScope[] = ['read', 'upload', 'delete'];
+export const MAX_ACCESS_TOKENS = 20;
+
+const TOKEN_PREFIX = 'lsk_';
+const LAST_USED_PRECISION_MS = 60 * 1000; // lastUsedAt is written at most once a minute per token
+
+export interface AccessTokenSummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: AccessTokenScope[];
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// The token owner a /api/v1 request acts as
+export interface ApiCaller {
+  tokenId: string;
+  userId: string;
+  scopes: AccessTokenScope[];
+}
+
+const summarySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  createdAt: true,
+} as const;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Tokens of an account that haven't been revoked, newest first
+ */
+export async function listAccessTokens(userId: string): Promise<AccessTokenSummary[]> {
+  return prisma.accessToken.findMany({
+    where: { userId, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+    select: summarySelect,
+  });
+}
+
+/**
+ * Create a token for an account
+ * @returns The token (only ever returned here) and its summary
+ */
+export async function createAccessToken(
+  userId: string,
+  options: { name: string; scopes: AccessTokenScope[] }
+): Promise<
+  | { success: true; token: string; accessToken: AccessTokenSummary }
+  | { success: false; error: string; status: number }
+> {
+  const active = await prisma.accessToken.count({ where: { userId, revokedAt: null } });
+  if (active >= MAX_ACCESS_TOKENS) {
+    return {
+      success: false,
+      error: `You can have at most ${MAX_ACCESS_TOKENS} access tokens. Revoke one you no longer use first.`,
+      status: 409,
+    };
+  }
+
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  // Accounts that never uploaded may not have a row yet
+  await ensureUserRecord(userId);
+  const accessToken = await prisma.accessToken.create({
+    data: {
+      userId,
+      name: options.name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      scopes: Array.from(new Set(options.scopes)),
+    },
+    select: summarySelect,
+  });
+
+  return { success: true, token, accessToken };
+}
+
+/**
+ * Revoke one of an account's tokens
+ * @returns false if the account has no such active token
+ */
+export async function revokeAccessToken(userId: string, tokenId: string): Promise<boolean> {
+  const { count } = await prisma.accessToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Resolve the `Authorization: Bearer <token>` header of a request
+ */
+export async function authenticateAccessToken(
+  req: Request
+): Promise<{ success: true; caller: ApiCaller } | { success: false; error: string; status: number }> {
+  const header = req.headers.get('authorization');
+  const token = header?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    return { success: false, error: 'Missing access token. Send it as `Authorization: Bearer <token>`.', status: 401 };
+  }
+
+  const accessToken = token.startsWith(TOKEN_PREFIX)
+    ? await prisma.accessToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { user: { select: { deletionRequestedAt: true } } },
+      })
+    : null;
+
+  if (!accessToken || accessToken.revokedAt) {
+    return { success: false, error: 'Invalid or revoked access token', status: 401 };
+  }
+
+  // Same as signing in: the account has to be restored first
+  if (accessToken.user.deletionRequestedAt) {
+    return { success: false, error: 'This account is scheduled for deletion', status: 403 };
+  }
+
+  const now = new Date();
+  if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+    await prisma.accessToken.update({
+      where: { id: accessToken.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    success: true,
+    caller: { tokenId: accessToken.id, userId: accessToken.userId, scopes: accessToken.scopes },
+  };
+}
+
+/**
+ * Require a token with `scope` for a /api/v1 route handler, and apply a
+ * route rate limit policy (if given) counted against the token owner
+ */
+export function withAccessToken<TContext>(
+  scope: AccessTokenScope,
+  policyName: RouteRateLimitName | null,
+  handler: (req: Request, context: TContext, caller: ApiCaller) => Promise<Response>
+): (req: Request, context: TContext) => Promise<Response> {
+  return async (req, context) => {
+    const result = await authenticateAccessToken(req);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status, headers: result.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : undefined }
+      );
+    }
+
+    const { caller } = result;
+    if (!caller.scopes.includes(scope)) {
+      return NextResponse.json(
+        { error: `This access token doesn't have the "${scope}" scope` },
+        { status: 403 }
+      );
+    }
+
+    return policyName
+      ? applyRateLimit(policyName, req, caller.userId, () => handler(req, context, caller))
+      : handler(req, context, caller);
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Account Deletion
+ * Deletes an account as a tracked job: every file is removed from storage in
+ * batches, then the rows, the user and (when we started it) the Clerk user.
+ * Files whose storage delete keeps failing hold the job back; it is retried
+ * later by the account-deletions cron instead of leaving objects behind.
+ *
+ * Deletions requested by the user first wait out a grace period
+ * (ACCOUNT_DELETION_GRACE_DAYS, default 14) during which their files are
+ * hidden and signing back in can restore the account.
+ */
+
+import { clerkClient } from '@clerk/nextjs/server';
+import { isClerkAPIResponseError } from '@clerk/nextjs/errors';
+import type { AccountDeletion } from '@prisma/client';
+import { deleteUserDataExports } from './data-export';
+import { prisma } from './db';
+import { getStorageProvider, type StorageProviderName } from './storage';
+import { deleteUploadSessions } from './upload-sessions';
+import { deleteUserRecord } from './users';
+
+const BATCH_SIZE = 100;
+const STORAGE_RETRIES = 3;               // Attempts per storage delete within a run
+const MAX_ATTEMPTS = 10;                 // Runs before the job is marked failed
+const RUN_LEASE_MS = 10 * 60 * 1000;     // A crashed run is picked up again after this
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_GRACE_DAYS = 14;
+
+export interface AccountDeletionReport {
+  processed: number;
+  completed: number;
+  retrying: number;
+  failed: { userId: string; attempts: number; lastError: string | null }[];
+}
+
+/**
+ * Days a deleted account can still be restored
+ */
+export function getDeletionGraceDays(): number {
+  const days = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_GRACE_DAYS;
+}
+
+/**
+ * Delete an account that is already gone from Clerk, without a grace period
+ * (or cut a pending grace period short). Returns the job doing so.
+ */
+export async function requestAccountDeletion(userId: string): Promise<AccountDeletion> {
+  // Start waiting and failed jobs over, due now; a running job keeps its
+  // lease and a completed one stays completed
+  await prisma.accountDeletion.updateMany({
+    where: { userId, status: { in: ['pending', 'failed'] } },
+    data: {
+      status: 'pending',
+      attempts: 0,
+      failedFiles: 0,
+      lastError: null,
+      nextAttemptAt: new Date(),
+    },
+  });
+
+  return prisma.accountDeletion.upsert({
+    where: { userId },
+    create: { userId, deleteFromClerk: false },
+    // Nothing left to delete in Clerk once Clerk reports the user gone
+    update: { deleteFromClerk: false },
+  });
+}
+
+/**
+ * Hide the account's files and schedule its deletion after the grace period
+ * @returns When the account will be deleted for good
+ */
+export async function scheduleAccountDeletion(userId: string): Promise<Date> {
+  const now = new Date();
+  const deleteAt = new Date(now.getTime() + getDeletionGraceDays() * 24 * 60 * 60 * 1000);
+
+  await prisma.$transaction([
+    prisma.user.upsert({
+      where: { id: userId },
+      update: { deletionRequestedAt: now },
+      create: { id: userId, deletionRequestedAt: now },
+    }),
+    prisma.accountDeletion.upsert({
+      where: { userId },
+      create: { userId, deleteFromClerk: true, requestedAt: now, nextAttemptAt: deleteAt },
+      update: {
+        status: 'pending',
+        deleteFromClerk: true,
+        attempts: 0,
+        failedFiles: 0,
+        lastError: null,
+        requestedAt: now,
+        nextAttemptAt: deleteAt,
+      },
+    }),
+  ]);
+
+  return deleteAt;
+}
+
+/**
+ * Pending deletion of an account, if it is still within its grace period
+ */
+export async function getPendingAccountDeletion(userId: string): Promise<{ requestedAt: Date; deleteAt: Date } | null> {
+  const job = await prisma.accountDeletion.findUnique({ where: { userId } });
+  if (!job || job.status !== 'pending' || job.attempts > 0) {
+    return null;
+  }
+  return { requestedAt: job.requestedAt, deleteAt: job.nextAttemptAt };
+}
+
+/**
+ * Cancel a deletion that hasn't started yet and make the files visible again
+ * @returns false when the deletion is already under way
+ */
+export async function restoreAccount(userId: string): Promise<boolean> {
+  // Only jobs that never ran can be cancelled; a run claims the job atomically
+  const { count } = await prisma.accountDeletion.deleteMany({
+    where: { userId, status: 'pending', attempts: 0 },
+  });
+  if (count === 0) {
+    return false;
+  }
+
+  await prisma.user.updateMany({
+    where: { id: userId },
+    data: { deletionRequestedAt: null },
+  });
+  return true;
+}
+
+async function withRetries<T>(action: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await action();
+    } catch (error) {
+      if (attempt >= STORAGE_RETRIES) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** attempt));
+    }
+  }
+}
+
+/**
+ * Delete the user's files from storage and then their rows, in batches
+ * @returns Files deleted, and the last error for files that could not be
+ */
+async function purgeUserFiles(userId: string): Promise<{ deleted: number; failed: number; lastError: string | null }> {
+  const result = { deleted: 0, failed: 0, lastError: null as string | null };
+  const skippedIds: string[] = [];
+
+  while (true) {
+    const batch = await prisma.file.findMany({
+      where: {
+        userId,
+        ...(skippedIds.length > 0 && { id: { notIn: skippedIds } }),
+      },
+      take: BATCH_SIZE,
+      select: { id: true, storageProvider: true, storageKey: true },
+    });
+
+    if (batch.length === 0) break;
+
+    const removable: string[] = [];
+
+    // Each provider deletes its own objects
+    const byProvider = new Map<StorageProviderName, typeof batch>();
+    for (const file of batch) {
+      byProvider.set(file.storageProvider, [...(byProvider.get(file.storageProvider) ?? []), file]);
+    }
+
+    for (const [providerName, files] of byProvider) {
+      const storage = await getStorageProvider(providerName);
+
+      try {
+        await withRetries(() => storage.delete(files.map((file) => file.storageKey)));
+        removable.push(...files.map((file) => file.id));
+      } catch (batchError) {
+        console.error(`Batch ${providerName} delete failed for account ${userId}, retrying files one by one:`, batchError);
+
+        // Fall back to per-file deletes so one bad key doesn't hold back the batch
+        for (const file of files) {
+          try {
+            await withRetries(() => storage.delete(file.storageKey));
+            removable.push(file.id);
+          } catch (fileError) {
+            result.failed += 1;
+            result.lastError = `${file.storageKey}: ${fileError instanceof Error ? fileError.message : String(fileError)}`;
+            skippedIds.push(file.id);
+          }
+        }
+      }
+    }
+
+    if (removable.length > 0) {
+      const { count } = await prisma.file.deleteMany({ where: { id: { in: removable } } });
+      result.deleted += count;
+    }
+  }
+
+  return result;
+}
+
+async function deleteClerkUser(userId: string): Promise<void> {
+  try {
+    const client = await clerkClient();
+    await client.users.deleteUser(userId);
+  } catch (error) {
+    // Already gone, e.g. deleted from the Clerk dashboard meanwhile
+    if (isClerkAPIResponseError(error) && error.status === 404) return;
+    throw error;
+  }
+}
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+}
+
+/**
+ * Run one attempt of a deletion job. Does nothing when the job is finished,
+ * not due yet or being run by another request.
+ * @returns The job after this attempt
+ */
+export async function runAccountDeletion(jobId: string): Promise<AccountDeletion> {
+  const now = new Date();
+
+  // Claim the job; the lease lets a later run take over if this one crashes
+  const claimed = await prisma.accountDeletion.updateMany({
+    where: {
+      id: jobId,
+      status: { in: ['pending', 'running'] },
+      nextAttemptAt: { lte: now },
+    },
+    data: {
+      status: 'running',
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + RUN_LEASE_MS),
+    },
+  });
+
+  const job = await prisma.accountDeletion.findUniqueOrThrow({ where: { id: jobId } });
+  if (claimed.count === 0) {
+    return job;
+  }
+
+  try {
+    const files = await purgeUserFiles(job.userId);
+
+    if (files.failed > 0) {
+      const gaveUp = job.attempts >= MAX_ATTEMPTS;
+      console.error(`Account deletion for ${job.userId}: ${files.failed} files could not be deleted from storage`);
+      return prisma.accountDeletion.update({
+        where: { id: job.id },
+        data: {
+          status: gaveUp ? 'failed' : 'pending',
+          deletedFiles: { increment: files.deleted },
+          failedFiles: files.failed,
+          lastError: files.lastError,
+          nextAttemptAt: new Date(Date.now() + retryDelayMs(job.attempts)),
+        },
+      });
+    }
+
+    // Unfinished resumable uploads keep their chunks in storage
+    await deleteUploadSessions({ userId: job.userId });
+    await deleteUserDataExports(job.userId);
+    await deleteUserRecord(job.userId);
+
+    if (job.deleteFromClerk) {
+      await deleteClerkUser(job.userId);
+    }
+
+    return prisma.accountDeletion.update({
+      where: { id: job.id },
+      data: {
+        status: 'completed',
+        deletedFiles: { increment: files.deleted },
+        failedFiles: 0,
+        lastError: null,
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`Account deletion for ${job.userId} failed:`, error);
+    return prisma.accountDeletion.update({
+      where: { id: job.id },
+      data: {
+        status: job.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(job.attempts)),
+      },
+    });
+  }
+}
+
+/**
+ * Run every deletion job that is due (called by the account-deletions cron)
+ */
+export async function processAccountDeletions(maxJobs = 20): Promise<AccountDeletionReport> {
+  const due = await prisma.accountDeletion.findMany({
+    where: {
+      status: { in: ['pending', 'running'] },
+      nextAttemptAt: { lte: new Date() },
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: maxJobs,
+    select: { id: true },
+  });
+
+  const report: AccountDeletionReport = { processed: 0, completed: 0, retrying: 0, failed: [] };
+
+  for (const { id } of due) {
+    const job = await runAccountDeletion(id);
+    report.processed += 1;
+
+    if (job.status === 'completed') {
+      report.completed += 1;
+    } else if (job.status === 'failed') {
+      report.failed.push({ userId: job.userId, attempts: job.attempts, lastError: job.lastError });
+    } else {
+      report.retrying += 1;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,42 @@
+/**
+ * REST API v1
+ * Response shapes shared by the token-authenticated /api/v1 routes.
+ * Fields are only ever added to v1; anything else needs a /api/v2.
+ */
+
+import type { File, Visibility } from '@prisma/client';
+
+export interface ApiFile {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  visibility: Visibility;
+  uploadDate: Date;
+  expiresAt: Date | null;      // null = never expires
+  downloadCount: number;
+  maxDownloads: number | null; // null = unlimited
+  isPasswordProtected: boolean;
+  url: string;                 // Share page
+  downloadUrl: string;
+}
+
+/**
+ * A file as returned by the API, with absolute links on `origin`
+ */
+export function toApiFile(file: File, origin: string): ApiFile {
+  return {
+    id: file.id,
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    visibility: file.visibility,
+    uploadDate: file.uploadDate,
+    expiresAt: file.expiresAt,
+    downloadCount: file.downloadCount,
+    maxDownloads: file.maxDownloads,
+    isPasswordProtected: !!file.passwordHash,
+    url: new URL(`/f/${file.id}`, origin).toString(),
+    downloadUrl: new URL(`/d/${file.id}`, origin).toString(),
+  };
+}
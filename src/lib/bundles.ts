@@ -0,0 +1,163 @@
+/**
+ * File Bundles
+ * Groups several files under one /b/[bundleId] share link
+ */
+
+import type { Visibility } from '@prisma/client';
+import { prisma } from './db';
+import { isDownloadLimitReached } from './downloads';
+import { getOwnership, isOwnerPendingDeletion } from './file-access';
+
+export const MAX_BUNDLE_FILES = 100;
+
+const bundleFileSelect = {
+  id: true,
+  name: true,
+  size: true,
+  type: true,
+  uploadDate: true,
+  downloadCount: true,
+  maxDownloads: true,
+  expiresAt: true,
+  visibility: true,
+  passwordHash: true,
+} as const;
+
+export type BundleLookup =
+  | {
+      status: 'ok';
+      isOwner: boolean;
+      bundle: {
+        id: string;
+        name: string | null;
+        visibility: Visibility;
+        expiresAt: Date | null;
+        createdAt: Date;
+        isGuest: boolean;
+        user: { id: string; name: string | null; email: string | null; imageUrl: string | null } | null;
+      };
+      files: {
+        id: string;
+        name: string;
+        size: number;
+        type: string;
+        uploadDate: Date;
+        downloadCount: number;
+        maxDownloads: number | null;
+        expiresAt: Date | null;
+        visibility: Visibility;
+        isPasswordProtected: boolean;
+      }[];
+    }
+  | { status: 'not_found' }
+  | { status: 'expired' }
+  | { status: 'unavailable' }; // The owner's account is being deleted
+
+/**
+ * Load a bundle for the current request.
+ * Private bundles are not found for anyone but the owner, and visitors only
+ * see files that are still available and not private.
+ */
+export async function getBundle(bundleId: string): Promise<BundleLookup> {
+  const bundle = await prisma.bundle.findUnique({
+    where: { id: bundleId },
+    include: {
+      user: { select: { id: true, name: true, email: true, imageUrl: true } },
+      files: { select: bundleFileSelect, orderBy: { name: 'asc' } },
+    },
+  });
+
+  if (!bundle) {
+    return { status: 'not_found' };
+  }
+
+  const { isOwner } = await getOwnership(bundle);
+  if (bundle.visibility === 'private' && !isOwner) {
+    return { status: 'not_found' };
+  }
+
+  if (!isOwner && await isOwnerPendingDeletion(bundle)) {
+    return { status: 'unavailable' };
+  }
+
+  const now = new Date();
+  if (bundle.expiresAt && now > bundle.expiresAt) {
+    return { status: 'expired' };
+  }
+
+  const files = bundle.files
+    .filter((file) =>
+      (!file.expiresAt || now <= file.expiresAt) &&
+      !isDownloadLimitReached(file) &&
+      (isOwner || file.visibility !== 'private')
+    )
+    .map(({ passwordHash, ...file }) => ({ ...file, isPasswordProtected: !!passwordHash }));
+
+  // Once every file is gone the bundle has nothing left to share
+  if (files.length === 0 && !isOwner) {
+    return { status: 'expired' };
+  }
+
+  return {
+    status: 'ok',
+    isOwner,
+    bundle: {
+      id: bundle.id,
+      name: bundle.name,
+      visibility: bundle.visibility,
+      expiresAt: bundle.expiresAt,
+      createdAt: bundle.createdAt,
+      isGuest: bundle.isGuest,
+      user: bundle.user,
+    },
+    files,
+  };
+}
+
+/**
+ * Create a bundle from files owned by the current request
+ * @returns The bundle ID, or an error message if any file can't be bundled
+ */
+export async function createBundle(options: {
+  fileIds: string[];
+  name?: string;
+  visibility: Visibility;
+}): Promise<{ success: true; bundleId: string } | { success: false; error: string; status: number }> {
+  const fileIds = Array.from(new Set(options.fileIds));
+
+  const files = await prisma.file.findMany({
+    where: { id: { in: fileIds } },
+    select: { id: true, userId: true, isGuest: true, guestId: true, expiresAt: true },
+  });
+
+  if (files.length !== fileIds.length) {
+    return { success: false, error: 'One or more files were not found', status: 404 };
+  }
+
+  const now = new Date();
+  let owner: { userId: string | null; guestId: string | null } | null = null;
+
+  for (const file of files) {
+    const { isOwner, userId } = await getOwnership(file);
+    if (!isOwner) {
+      return { success: false, error: 'You can only bundle your own files', status: 403 };
+    }
+    if (file.expiresAt && now > file.expiresAt) {
+      return { success: false, error: 'One or more files have expired', status: 410 };
+    }
+    owner = { userId, guestId: userId ? null : file.guestId };
+  }
+
+  const bundle = await prisma.bundle.create({
+    data: {
+      name: options.name || null,
+      userId: owner!.userId,
+      isGuest: !owner!.userId,
+      guestId: owner!.guestId,
+      visibility: options.visibility,
+      files: { connect: fileIds.map((id) => ({ id })) },
+    },
+  });
+
+  return { success: true, bundleId: bundle.id };
+}
@@ -0,0 +1,63 @@
+/**
+ * Clerk Webhooks
+ * Applies verified Clerk user events to the User table. Each Svix message
+ * is handled once; redelivered messages are acknowledged without effect,
+ * and every handler is safe to run twice anyway.
+ */
+
+import type { WebhookEvent } from '@clerk/nextjs/server';
+import { prisma } from './db';
+import { requestAccountDeletion } from './account-deletion';
+import { applyClerkProfile } from './users';
+
+// Svix rejects signatures older than 5 minutes, so a week of IDs covers any redelivery
+const PROCESSED_EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ClerkWebhookResult = 'processed' | 'duplicate' | 'ignored';
+
+/**
+ * Handle a verified webhook event
+ * @param messageId - The `svix-id` header, the same for every delivery of a message
+ * @returns The outcome, and the ID of an account deletion job the event queued
+ */
+export async function handleClerkWebhook(
+  messageId: string,
+  event: WebhookEvent
+): Promise<{ result: ClerkWebhookResult; deletionJobId: string | null }> {
+  const seen = await prisma.clerkWebhookEvent.findUnique({ where: { id: messageId } });
+  if (seen) {
+    return { result: 'duplicate', deletionJobId: null };
+  }
+
+  let result: ClerkWebhookResult = 'processed';
+  let deletionJobId: string | null = null;
+
+  switch (event.type) {
+    case 'user.created':
+    case 'user.updated':
+      await applyClerkProfile(event.data);
+      break;
+    case 'user.deleted':
+      // Deleted in Clerk (dashboard, or the last step of our own deletion):
+      // there is nothing left to restore, so the purge is due now. It runs
+      // outside the webhook request; a no-op once completed.
+      if (event.data.id) {
+        deletionJobId = (await requestAccountDeletion(event.data.id)).id;
+      }
+      break;
+    default:
+      // Other event types may be enabled on the endpoint; nothing to do
+      result = 'ignored';
+  }
+
+  // Recorded after handling: if this fails, the redelivery just runs the handler again
+  await prisma.clerkWebhookEvent.createMany({
+    data: [{ id: messageId, type: event.type }],
+    skipDuplicates: true,
+  });
+  await prisma.clerkWebhookEvent.deleteMany({
+    where: { processedAt: { lt: new Date(Date.now() - PROCESSED_EVENT_RETENTION_MS) } },
+  });
+
+  return { result, deletionJobId };
+}
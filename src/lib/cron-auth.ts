@@ -0,0 +1,26 @@
+/**
+ * Cron Route Authorization
+ * Scheduled routes require `Authorization: Bearer <CRON_SECRET>` (sent automatically by Vercel Cron)
+ */
+
+import { NextResponse } from 'next/server';
+import { headers } from 'next/headers';
+
+/**
+ * Returns an error response when the request isn't an authorized cron call, otherwise null
+ */
+export async function verifyCronRequest(): Promise<NextResponse | null> {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not configured');
+    return NextResponse.json({ error: 'Cron is not configured' }, { status: 500 });
+  }
+
+  const headersList = await headers();
+  if (headersList.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
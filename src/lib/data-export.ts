@@ -0,0 +1,373 @@
+/**
+ * Personal Data Export
+ * Builds a "Download my data" archive for an account: the profile, a JSON and
+ * CSV manifest of every file and, when asked for, the files themselves.
+ * Archives are assembled in the background, kept in storage and can be
+ * downloaded by their owner until they expire (DATA_EXPORT_EXPIRY_HOURS,
+ * default 48); the data-exports cron removes them after that.
+ */
+
+import { makeZip } from 'client-zip';
+import type { DataExport, DataExportStatus } from '@prisma/client';
+import { prisma } from './db';
+import { getStorageProvider, StorageObjectNotFoundError } from './storage';
+import { ensureUserRecord } from './users';
+import { dedupeFileNames, getMaxZipBytes } from './zip-download';
+
+const FORMAT_VERSION = 1;
+const MAX_ATTEMPTS = 3;                  // Runs before the export is marked failed
+const RUN_LEASE_MS = 10 * 60 * 1000;     // A crashed run is picked up again after this
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+const DEFAULT_EXPIRY_HOURS = 48;
+
+export interface DataExportSummary {
+  id: string;
+  status: DataExportStatus;
+  includeContents: boolean;
+  fileCount: number | null;
+  size: number | null;              // Archive size in bytes
+  requestedAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+  downloadUrl: string | null;       // Set while the archive can be downloaded
+}
+
+export interface DataExportReport {
+  processed: number;
+  ready: number;
+  retrying: number;
+  failed: { userId: string; attempts: number; lastError: string | null }[];
+  expired: number;
+}
+
+/**
+ * Hours an export stays downloadable, from DATA_EXPORT_EXPIRY_HOURS
+ */
+export function getDataExportExpiryHours(): number {
+  const hours = Number(process.env.DATA_EXPORT_EXPIRY_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_EXPIRY_HOURS;
+}
+
+function toSummary(job: DataExport): DataExportSummary {
+  // Archives past their expiry are gone for the user even before the cron removes them
+  const isExpired = job.status === 'ready' && !!job.expiresAt && new Date() > job.expiresAt;
+  const status = isExpired ? 'expired' : job.status;
+
+  return {
+    id: job.id,
+    status,
+    includeContents: job.includeContents,
+    fileCount: job.fileCount,
+    size: job.size,
+    requestedAt: job.requestedAt,
+    completedAt: job.completedAt,
+    expiresAt: job.expiresAt,
+    downloadUrl: status === 'ready' ? `/api/account/export/${job.id}` : null,
+  };
+}
+
+/**
+ * The account's most recent export, if any
+ */
+export async function getLatestDataExport(userId: string): Promise<DataExportSummary | null> {
+  const job = await prisma.dataExport.findFirst({
+    where: { userId },
+    orderBy: { requestedAt: 'desc' },
+  });
+  return job ? toSummary(job) : null;
+}
+
+/**
+ * Queue a new export of the account's data.
+ * Only one export is prepared at a time, and exports with file contents are
+ * held to the same size cap as ZIP downloads.
+ */
+export async function requestDataExport(
+  userId: string,
+  includeContents: boolean
+): Promise<{ success: true; export: DataExportSummary } | { success: false; error: string; status: number }> {
+  const active = await prisma.dataExport.findFirst({
+    where: { userId, status: { in: ['pending', 'running'] } },
+    select: { id: true },
+  });
+  if (active) {
+    return { success: false, error: 'A data export is already being prepared', status: 409 };
+  }
+
+  if (includeContents) {
+    const { _sum } = await prisma.file.aggregate({ where: { userId }, _sum: { size: true } });
+    const maxBytes = getMaxZipBytes();
+    if ((_sum.size ?? 0) > maxBytes) {
+      return {
+        success: false,
+        error: `Exports with file contents are limited to ${Math.floor(maxBytes / (1024 * 1024))}MB. Export without contents and download the files individually instead.`,
+        status: 413,
+      };
+    }
+  }
+
+  // Accounts that never uploaded may not have a row yet
+  await ensureUserRecord(userId);
+  const job = await prisma.dataExport.create({ data: { userId, includeContents } });
+
+  return { success: true, export: toSummary(job) };
+}
+
+function csvField(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Assemble the archive for a job. The ZIP is streamed, reading each file
+ * from storage only when it is its turn, so it is never held in memory.
+ * @returns The archive stream and how many files it describes
+ */
+async function buildArchive(job: DataExport): Promise<{ stream: ReadableStream<Uint8Array>; fileCount: number }> {
+  const [user, files] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: job.userId },
+      select: { id: true, email: true, name: true, imageUrl: true, plan: true, createdAt: true, updatedAt: true },
+    }),
+    prisma.file.findMany({
+      where: { userId: job.userId },
+      orderBy: { uploadDate: 'asc' },
+    }),
+  ]);
+
+  const names = dedupeFileNames(files.map((file) => file.name));
+  const missing = new Set<string>();
+
+  // Contents go first so the manifest can tell which files were found in storage
+  async function* entries() {
+    if (job.includeContents) {
+      for (const [i, file] of files.entries()) {
+        try {
+          const storage = await getStorageProvider(file.storageProvider);
+          const input = await storage.getStream(file.storageKey);
+          yield { name: `files/${names[i]}`, input, lastModified: file.uploadDate, size: file.size };
+        } catch (error) {
+          if (!(error instanceof StorageObjectNotFoundError)) throw error;
+          missing.add(file.id);
+        }
+      }
+    }
+
+    const manifest = files.map((file, i) => ({
+      id: file.id,
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      uploadDate: file.uploadDate.toISOString(),
+      downloadCount: file.downloadCount,
+      maxDownloads: file.maxDownloads,
+      expiresAt: file.expiresAt?.toISOString() ?? null,
+      visibility: file.visibility,
+      isPasswordProtected: !!file.passwordHash,
+      archivePath: job.includeContents && !missing.has(file.id) ? `files/${names[i]}` : null,
+    }));
+
+    const exportedAt = new Date();
+    yield {
+      name: 'profile.json',
+      input: JSON.stringify({ formatVersion: FORMAT_VERSION, exportedAt, user }, null, 2),
+      lastModified: exportedAt,
+    };
+    yield {
+      name: 'files.json',
+      input: JSON.stringify({ formatVersion: FORMAT_VERSION, exportedAt, files: manifest }, null, 2),
+      lastModified: exportedAt,
+    };
+
+    const columns = ['id', 'name', 'size', 'type', 'uploadDate', 'downloadCount', 'maxDownloads', 'expiresAt', 'visibility', 'isPasswordProtected', 'archivePath'] as const;
+    const rows = [columns.join(','), ...manifest.map((file) => columns.map((column) => csvField(file[column])).join(','))];
+    yield { name: 'files.csv', input: rows.join('\n') + '\n', lastModified: exportedAt };
+  }
+
+  return { stream: makeZip(entries()), fileCount: files.length };
+}
+
+/**
+ * Run one attempt of an export job. Does nothing when the job is finished,
+ * not due yet or being run by another request.
+ * @returns The job after this attempt, or null if it no longer exists
+ */
+export async function runDataExport(jobId: string): Promise<DataExport | null> {
+  const now = new Date();
+
+  // Claim the job; the lease lets a later run take over if this one crashes
+  const claimed = await prisma.dataExport.updateMany({
+    where: {
+      id: jobId,
+      status: { in: ['pending', 'running'] },
+      nextAttemptAt: { lte: now },
+    },
+    data: {
+      status: 'running',
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + RUN_LEASE_MS),
+    },
+  });
+
+  const job = await prisma.dataExport.findUnique({ where: { id: jobId } });
+  if (!job || claimed.count === 0) {
+    return job;
+  }
+
+  try {
+    const archive = await buildArchive(job);
+    const storage = await getStorageProvider();
+    const stored = await storage.putStream({
+      name: `liteshare-data-${job.id}.zip`,
+      type: 'application/zip',
+      stream: archive.stream,
+    });
+
+    const completedAt = new Date();
+    const { count } = await prisma.dataExport.updateMany({
+      where: { id: job.id },
+      data: {
+        status: 'ready',
+        fileCount: archive.fileCount,
+        size: stored.size,
+        storageProvider: storage.name,
+        storageKey: stored.key,
+        lastError: null,
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + getDataExportExpiryHours() * 60 * 60 * 1000),
+      },
+    });
+
+    // The account was deleted while the archive was being built
+    if (count === 0) {
+      await storage.delete(stored.key);
+      return null;
+    }
+
+    return prisma.dataExport.findUnique({ where: { id: job.id } });
+  } catch (error) {
+    console.error(`Data export ${job.id} for ${job.userId} failed:`, error);
+    const { count } = await prisma.dataExport.updateMany({
+      where: { id: job.id },
+      data: {
+        status: job.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: new Date(Date.now() + RETRY_DELAY_MS),
+      },
+    });
+    return count > 0 ? prisma.dataExport.findUnique({ where: { id: job.id } }) : null;
+  }
+}
+
+/**
+ * Open a ready export for download by its owner
+ */
+export async function getDataExportDownload(
+  userId: string,
+  exportId: string
+): Promise<{ stream: ReadableStream<Uint8Array>; fileName: string; size: number | null } | { error: string; status: number }> {
+  const job = await prisma.dataExport.findUnique({ where: { id: exportId } });
+  if (!job || job.userId !== userId) {
+    return { error: 'Export not found', status: 404 };
+  }
+
+  const summary = toSummary(job);
+  if (summary.status === 'expired') {
+    return { error: 'This export has expired. Request a new one from your dashboard.', status: 410 };
+  }
+  if (summary.status !== 'ready' || !job.storageProvider || !job.storageKey) {
+    return { error: 'This export is not ready yet', status: 409 };
+  }
+
+  const storage = await getStorageProvider(job.storageProvider);
+  const stream = await storage.getStream(job.storageKey);
+  const date = (job.completedAt ?? job.requestedAt).toISOString().slice(0, 10);
+
+  return { stream, fileName: `liteshare-data-${date}.zip`, size: job.size };
+}
+
+/**
+ * Remove the archives of exports past their expiry from storage
+ * @returns Number of exports expired
+ */
+async function expireDataExports(): Promise<number> {
+  const due = await prisma.dataExport.findMany({
+    where: { status: 'ready', expiresAt: { lte: new Date() } },
+    select: { id: true, storageProvider: true, storageKey: true },
+  });
+
+  let expired = 0;
+  for (const job of due) {
+    try {
+      if (job.storageProvider && job.storageKey) {
+        const storage = await getStorageProvider(job.storageProvider);
+        await storage.delete(job.storageKey);
+      }
+      await prisma.dataExport.update({
+        where: { id: job.id },
+        data: { status: 'expired', storageProvider: null, storageKey: null },
+      });
+      expired += 1;
+    } catch (error) {
+      // Left as ready; the next run tries again
+      console.error(`Failed to remove expired data export ${job.id}:`, error);
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Delete every export archive of an account from storage, then the exports.
+ * Throws if an archive can't be deleted, so account deletion retries later.
+ */
+export async function deleteUserDataExports(userId: string): Promise<void> {
+  const archives = await prisma.dataExport.findMany({
+    where: { userId, storageKey: { not: null } },
+    select: { storageProvider: true, storageKey: true },
+  });
+
+  for (const archive of archives) {
+    if (!archive.storageProvider || !archive.storageKey) continue;
+    const storage = await getStorageProvider(archive.storageProvider);
+    await storage.delete(archive.storageKey);
+  }
+
+  await prisma.dataExport.deleteMany({ where: { userId } });
+}
+
+/**
+ * Build every export that is due and remove expired archives
+ * (called by the data-exports cron)
+ */
+export async function processDataExports(maxJobs = 5): Promise<DataExportReport> {
+  const due = await prisma.dataExport.findMany({
+    where: {
+      status: { in: ['pending', 'running'] },
+      nextAttemptAt: { lte: new Date() },
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: maxJobs,
+    select: { id: true },
+  });
+
+  const report: DataExportReport = { processed: 0, ready: 0, retrying: 0, failed: [], expired: 0 };
+
+  for (const { id } of due) {
+    const job = await runDataExport(id);
+    report.processed += 1;
+
+    if (!job) continue;
+    if (job.status === 'ready') {
+      report.ready += 1;
+    } else if (job.status === 'failed') {
+      report.failed.push({ userId: job.userId, attempts: job.attempts, lastError: job.lastError });
+    } else {
+      report.retrying += 1;
+    }
+  }
+
+  report.expired = await expireDataExports();
+  return report;
+}
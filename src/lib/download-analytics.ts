@@ -0,0 +1,269 @@
+/**
+ * Download Analytics for LiteShare
+ * Logs individual downloads, rolls old events up into daily aggregates
+ * and builds the per-file analytics shown on the dashboard
+ */
+
+import { createHmac } from 'crypto';
+import { headers } from 'next/headers';
+import { prisma } from './db';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FileAnalytics {
+  fileId: string;
+  days: number;
+  totals: {
+    downloads: number;         // All-time, from File.downloadCount
+    uniqueDownloads: number;   // First downloads per visitor in the selected range
+    rangeDownloads: number;    // Logged downloads in the selected range
+    bandwidthBytes: number;    // size × all-time downloads
+  };
+  daily: { date: string; downloads: number; uniqueDownloads: number; bandwidthBytes: number }[];
+  topReferrers: { host: string; downloads: number }[];
+  userAgents: { family: string; downloads: number }[];
+}
+
+/**
+ * Number of days raw events are kept before being rolled up
+ */
+export function getRetentionDays(): number {
+  const days = parseInt(process.env.DOWNLOAD_EVENT_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Hash the visitor IP per file so raw IPs are never stored and hashes
+ * can't be correlated across files
+ */
+function hashIp(fileId: string, ip: string): string {
+  const secret = process.env.ANALYTICS_IP_SECRET;
+  if (!secret) {
+    throw new Error('ANALYTICS_IP_SECRET is not configured');
+  }
+  return createHmac('sha256', secret).update(`${fileId}:${ip}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Reduce a User-Agent header to a coarse browser/client family
+ */
+export function getUserAgentFamily(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown';
+  const ua = userAgent.toLowerCase();
+
+  if (/bot|crawler|spider|slurp|preview/.test(ua)) return 'Bot';
+  if (ua.includes('curl/')) return 'curl';
+  if (ua.includes('wget/')) return 'Wget';
+  if (ua.includes('edg/')) return 'Edge';
+  if (ua.includes('opr/') || ua.includes('opera')) return 'Opera';
+  if (ua.includes('firefox/')) return 'Firefox';
+  if (ua.includes('chrome/') || ua.includes('crios/')) return 'Chrome';
+  if (ua.includes('safari/')) return 'Safari';
+  return 'Other';
+}
+
+/**
+ * Extract the host from a Referer header, ignoring our own pages
+ */
+function getReferrerHost(referrer: string | null, ownHost: string | null): string | null {
+  if (!referrer) return null;
+  try {
+    const host = new URL(referrer).host;
+    return host && host !== ownHost ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface DownloadRequestInfo {
+  ip: string;
+  userAgent: string | null;
+  referrer: string | null;
+  host: string | null;
+}
+
+/**
+ * Collect the request details logged with each download
+ */
+export async function getDownloadRequestInfo(): Promise<DownloadRequestInfo> {
+  const headersList = await headers();
+  return {
+    ip: headersList.get('x-forwarded-for')?.split(',')[0] ||
+      headersList.get('x-real-ip') ||
+      'unknown',
+    userAgent: headersList.get('user-agent'),
+    referrer: headersList.get('referer'),
+    host: headersList.get('host'),
+  };
+}
+
+/**
+ * Record a single download. Failures are logged and never break the download itself.
+ */
+export async function logDownloadEvent(fileId: string, request: DownloadRequestInfo): Promise<void> {
+  try {
+    const ipHash = hashIp(fileId, request.ip);
+    const previous = await prisma.downloadEvent.findFirst({
+      where: { fileId, ipHash },
+      select: { id: true },
+    });
+
+    await prisma.downloadEvent.create({
+      data: {
+        fileId,
+        ipHash,
+        referrerHost: getReferrerHost(request.referrer, request.host),
+        userAgentFamily: getUserAgentFamily(request.userAgent),
+        isRepeat: !!previous,
+      },
+    });
+  } catch (error) {
+    console.error('Error logging download event:', error);
+  }
+}
+
+/**
+ * Roll events older than the retention period into daily aggregates and delete them.
+ * Aggregation and deletion run in one transaction, so re-running after a failure
+ * never double-counts.
+ */
+export async function rollupDownloadEvents(options: { retentionDays?: number; now?: Date } = {}): Promise<{
+  cutoff: string;
+  rolledUpEvents: number;
+}> {
+  const retentionDays = options.retentionDays ?? getRetentionDays();
+  const now = options.now ?? new Date();
+
+  // Only roll up whole UTC days
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+  cutoff.setUTCHours(0, 0, 0, 0);
+
+  const [, , deleted] = await prisma.$transaction([
+    prisma.$executeRaw`
+      INSERT INTO "DownloadDailyStat" ("fileId", "date", "downloads", "uniqueDownloads")
+      SELECT "fileId", "createdAt"::date, COUNT(*), COUNT(*) FILTER (WHERE NOT "isRepeat")
+      FROM "DownloadEvent"
+      WHERE "createdAt" < ${cutoff}
+      GROUP BY 1, 2
+      ON CONFLICT ("fileId", "date") DO UPDATE SET
+        "downloads" = "DownloadDailyStat"."downloads" + EXCLUDED."downloads",
+        "uniqueDownloads" = "DownloadDailyStat"."uniqueDownloads" + EXCLUDED."uniqueDownloads"
+    `,
+    prisma.$executeRaw`
+      INSERT INTO "DownloadReferrerStat" ("fileId", "date", "host", "downloads")
+      SELECT "fileId", "createdAt"::date, COALESCE("referrerHost", ''), COUNT(*)
+      FROM "DownloadEvent"
+      WHERE "createdAt" < ${cutoff}
+      GROUP BY 1, 2, 3
+      ON CONFLICT ("fileId", "date", "host") DO UPDATE SET
+        "downloads" = "DownloadReferrerStat"."downloads" + EXCLUDED."downloads"
+    `,
+    prisma.downloadEvent.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    }),
+  ]);
+
+  return { cutoff: cutoff.toISOString(), rolledUpEvents: deleted.count };
+}
+
+/**
+ * Build analytics for a file over the last `days` days, combining raw events
+ * with rolled-up daily aggregates
+ */
+export async function getFileAnalytics(
+  file: { id: string; size: number; downloadCount: number },
+  days: number
+): Promise<FileAnalytics> {
+  const since = new Date(Date.now() - (days - 1) * DAY_MS);
+  since.setUTCHours(0, 0, 0, 0);
+
+  const [events, dailyStats, referrerStats] = await Promise.all([
+    prisma.downloadEvent.findMany({
+      where: { fileId: file.id, createdAt: { gte: since } },
+      select: { createdAt: true, referrerHost: true, userAgentFamily: true, isRepeat: true },
+    }),
+    prisma.downloadDailyStat.findMany({
+      where: { fileId: file.id, date: { gte: since } },
+    }),
+    prisma.downloadReferrerStat.findMany({
+      where: { fileId: file.id, date: { gte: since } },
+    }),
+  ]);
+
+  const dailyMap = new Map<string, { downloads: number; uniqueDownloads: number }>();
+  for (let i = 0; i < days; i++) {
+    const date = new Date(since.getTime() + i * DAY_MS).toISOString().slice(0, 10);
+    dailyMap.set(date, { downloads: 0, uniqueDownloads: 0 });
+  }
+
+  const referrers = new Map<string, number>();
+  const userAgents = new Map<string, number>();
+
+  for (const stat of dailyStats) {
+    const day = dailyMap.get(stat.date.toISOString().slice(0, 10));
+    if (day) {
+      day.downloads += stat.downloads;
+      day.uniqueDownloads += stat.uniqueDownloads;
+    }
+  }
+
+  for (const stat of referrerStats) {
+    referrers.set(stat.host, (referrers.get(stat.host) ?? 0) + stat.downloads);
+  }
+
+  for (const event of events) {
+    const day = dailyMap.get(event.createdAt.toISOString().slice(0, 10));
+    if (day) {
+      day.downloads += 1;
+      if (!event.isRepeat) day.uniqueDownloads += 1;
+    }
+    const host = event.referrerHost ?? '';
+    referrers.set(host, (referrers.get(host) ?? 0) + 1);
+    userAgents.set(event.userAgentFamily, (userAgents.get(event.userAgentFamily) ?? 0) + 1);
+  }
+
+  const daily = Array.from(dailyMap.entries()).map(([date, day]) => ({
+    date,
+    downloads: day.downloads,
+    uniqueDownloads: day.uniqueDownloads,
+    bandwidthBytes: day.downloads * file.size,
+  }));
+
+  const sortByCount = <T extends { downloads: number }>(a: T, b: T) => b.downloads - a.downloads;
+
+  return {
+    fileId: file.id,
+    days,
+    totals: {
+      downloads: file.downloadCount,
+      uniqueDownloads: daily.reduce((acc, day) => acc + day.uniqueDownloads, 0),
+      rangeDownloads: daily.reduce((acc, day) => acc + day.downloads, 0),
+      bandwidthBytes: file.size * file.downloadCount,
+    },
+    daily,
+    topReferrers: Array.from(referrers.entries())
+      .map(([host, downloads]) => ({ host, downloads }))
+      .sort(sortByCount)
+      .slice(0, 10),
+    userAgents: Array.from(userAgents.entries())
+      .map(([family, downloads]) => ({ family, downloads }))
+      .sort(sortByCount),
+  };
+}
+
+/**
+ * Serialize the daily series as CSV
+ */
+export function analyticsToCsv(analytics: FileAnalytics): string {
+  const rows = [
+    ['date', 'downloads', 'unique_downloads', 'bandwidth_bytes'],
+    ...analytics.daily.map((day) => [
+      day.date,
+      String(day.downloads),
+      String(day.uniqueDownloads),
+      String(day.bandwidthBytes),
+    ]),
+  ];
+  return rows.map((row) => row.join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,136 @@
+/**
+ * Download Counting for LiteShare
+ * Enforces optional per-file download caps ("burn after reading" when the cap is 1)
+ */
+
+import { prisma } from './db';
+import { expireExhaustedFile } from './expiry';
+import { getStorageProvider } from './storage';
+
+// A used-up file is removed as soon as its last download has been sent;
+// if that download is aborted, the expiry sweeper removes it after this
+export const EXHAUSTED_FILE_GRACE_MS = 10 * 60 * 1000; // 10 minutes
+
+export const MAX_DOWNLOAD_LIMIT = 10000;
+
+export type RecordDownloadResult =
+  | { success: true; downloadCount: number; remainingDownloads: number | null }
+  | { success: false; reason: 'not_found' | 'expired' | 'limit_reached' };
+
+/**
+ * Whether a file has used up its download cap
+ */
+export function isDownloadLimitReached(file: { downloadCount: number; maxDownloads: number | null }): boolean {
+  return file.maxDownloads !== null && file.downloadCount >= file.maxDownloads;
+}
+
+/**
+ * Build a Content-Disposition header that keeps non-ASCII file names intact
+ * (RFC 6266 / RFC 5987) with a plain ASCII fallback for old clients
+ */
+export function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Atomically count a download if the file is still available and under its cap.
+ *
+ * The cap is checked in the same UPDATE that increments the counter, so two
+ * simultaneous requests can't both take the last allowed download. When the
+ * cap is reached the file expires after EXHAUSTED_FILE_GRACE_MS; pass the
+ * download through removeWhenSent to remove it as soon as it is sent.
+ */
+export async function recordDownload(fileId: string): Promise<RecordDownloadResult> {
+  const now = new Date();
+
+  const { count } = await prisma.file.updateMany({
+    where: {
+      id: fileId,
+      AND: [
+        { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+        { OR: [{ maxDownloads: null }, { downloadCount: { lt: prisma.file.fields.maxDownloads } }] },
+      ],
+    },
+    data: {
+      downloadCount: { increment: 1 },
+    },
+  });
+
+  const file = await prisma.file.findUnique({
+    where: { id: fileId },
+    select: { downloadCount: true, maxDownloads: true, expiresAt: true },
+  });
+
+  if (!file) {
+    return { success: false, reason: 'not_found' };
+  }
+
+  if (count === 0) {
+    if (file.expiresAt && now > file.expiresAt) {
+      return { success: false, reason: 'expired' };
+    }
+    return { success: false, reason: 'limit_reached' };
+  }
+
+  if (isDownloadLimitReached(file)) {
+    await expireExhaustedFile({ id: fileId, expiresAt: file.expiresAt }, new Date(now.getTime() + EXHAUSTED_FILE_GRACE_MS));
+  }
+
+  return {
+    success: true,
+    downloadCount: file.downloadCount,
+    remainingDownloads: file.maxDownloads === null ? null : Math.max(0, file.maxDownloads - file.downloadCount),
+  };
+}
+
+/**
+ * Delete a file that has used up its download cap from storage and the
+ * database. Does nothing if the owner raised the cap in the meantime.
+ */
+export async function removeExhaustedFile(fileId: string): Promise<void> {
+  const file = await prisma.file.findUnique({
+    where: { id: fileId },
+    select: { storageProvider: true, storageKey: true, downloadCount: true, maxDownloads: true },
+  });
+
+  if (!file || !isDownloadLimitReached(file)) {
+    return;
+  }
+
+  // Storage first, like the expiry sweeper: a leftover row is swept once it expires
+  const storage = await getStorageProvider(file.storageProvider);
+  await storage.delete(file.storageKey);
+  await prisma.file.deleteMany({ where: { id: fileId } });
+}
+
+/**
+ * Pass a download through, and once every byte has been sent remove the
+ * files whose last allowed download it carried. Downloads that only learn
+ * those files while streaming pass a function, read when the body ends.
+ */
+export function removeWhenSent(
+  body: ReadableStream<Uint8Array>,
+  fileIds: string[] | (() => string[])
+): ReadableStream<Uint8Array> {
+  if (Array.isArray(fileIds) && fileIds.length === 0) {
+    return body;
+  }
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    async flush() {
+      for (const fileId of typeof fileIds === 'function' ? fileIds() : fileIds) {
+        try {
+          await removeExhaustedFile(fileId);
+        } catch (error) {
+          // The expiry sweeper removes it once the grace period is over
+          console.error(`Failed to remove used-up file ${fileId}:`, error);
+        }
+      }
+    },
+  }));
+}
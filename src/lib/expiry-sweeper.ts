@@ -0,0 +1,166 @@
+/**
+ * Expiry Sweeper for LiteShare
+ * Permanently removes expired files from storage and the database
+ */
+
+import { prisma } from './db';
+import { getStorageProvider, type StorageProviderName } from './storage';
+import { deleteUploadSessions } from './upload-sessions';
+
+interface SweepOptions {
+  batchSize?: number;      // Rows fetched and deleted per batch
+  maxBatches?: number;     // Upper bound on batches per run
+  now?: Date;              // Reference time for "expired"
+  dryRun?: boolean;        // Report what would be deleted without deleting
+}
+
+export interface SweepFailure {
+  fileId: string;
+  storageProvider: StorageProviderName;
+  storageKey: string;
+  error: string;
+}
+
+export interface SweepReport {
+  startedAt: string;
+  finishedAt: string;
+  dryRun: boolean;
+  batches: number;
+  scanned: number;
+  deletedFromStorage: number;
+  deletedRows: number;
+  deletedBundles: number;  // Expired bundle links (their files are handled above)
+  deletedUploadSessions: number; // Abandoned resumable uploads and their chunks
+  freedBytes: number;
+  failed: SweepFailure[];
+  hasMore: boolean;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_BATCHES = 50;
+
+/**
+ * Sweep expired files in batches.
+ *
+ * Storage objects are deleted before their rows, so a crash between the two
+ * steps leaves the row behind and the next run simply deletes it again
+ * (providers treat deleting a missing key as a no-op). Rows whose storage
+ * deletion failed are kept and reported so a later run can retry them.
+ */
+export async function sweepExpiredFiles(options: SweepOptions = {}): Promise<SweepReport> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const maxBatches = options.maxBatches ?? DEFAULT_MAX_BATCHES;
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+
+  const report: SweepReport = {
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    dryRun,
+    batches: 0,
+    scanned: 0,
+    deletedFromStorage: 0,
+    deletedRows: 0,
+    deletedBundles: 0,
+    deletedUploadSessions: 0,
+    freedBytes: 0,
+    failed: [],
+    hasMore: false,
+  };
+
+  // IDs skipped in this run (failed, or already reported in a dry run)
+  const skippedIds: string[] = [];
+
+  while (report.batches < maxBatches) {
+    const batch = await prisma.file.findMany({
+      where: {
+        expiresAt: { lt: now },
+        ...(skippedIds.length > 0 && { id: { notIn: skippedIds } }),
+      },
+      orderBy: { expiresAt: 'asc' },
+      take: batchSize,
+      select: { id: true, storageProvider: true, storageKey: true, size: true },
+    });
+
+    if (batch.length === 0) break;
+
+    report.batches += 1;
+    report.scanned += batch.length;
+
+    if (dryRun) {
+      report.freedBytes += batch.reduce((acc, file) => acc + file.size, 0);
+      skippedIds.push(...batch.map((file) => file.id));
+      continue;
+    }
+
+    const removable: typeof batch = [];
+
+    // Each provider deletes its own objects
+    const byProvider = new Map<StorageProviderName, typeof batch>();
+    for (const file of batch) {
+      byProvider.set(file.storageProvider, [...(byProvider.get(file.storageProvider) ?? []), file]);
+    }
+
+    for (const [providerName, files] of byProvider) {
+      const storage = await getStorageProvider(providerName);
+
+      try {
+        report.deletedFromStorage += await storage.delete(files.map((file) => file.storageKey));
+        removable.push(...files);
+      } catch (batchError) {
+        console.error(`Batch ${providerName} delete failed, retrying files one by one:`, batchError);
+
+        // Fall back to per-file deletes so one bad key doesn't hold back the batch
+        for (const file of files) {
+          try {
+            report.deletedFromStorage += await storage.delete(file.storageKey);
+            removable.push(file);
+          } catch (fileError) {
+            report.failed.push({
+              fileId: file.id,
+              storageProvider: file.storageProvider,
+              storageKey: file.storageKey,
+              error: fileError instanceof Error ? fileError.message : String(fileError),
+            });
+            skippedIds.push(file.id);
+          }
+        }
+      }
+    }
+
+    if (removable.length > 0) {
+      const { count } = await prisma.file.deleteMany({
+        where: { id: { in: removable.map((file) => file.id) } },
+      });
+      report.deletedRows += count;
+      report.freedBytes += removable.reduce((acc, file) => acc + file.size, 0);
+    }
+  }
+
+  if (report.batches >= maxBatches) {
+    const remaining = await prisma.file.count({
+      where: {
+        expiresAt: { lt: now },
+        ...(skippedIds.length > 0 && { id: { notIn: skippedIds } }),
+      },
+    });
+    report.hasMore = remaining > 0;
+  }
+
+  if (!dryRun) {
+    const { count } = await prisma.bundle.deleteMany({
+      where: { expiresAt: { lt: now } },
+    });
+    report.deletedBundles = count;
+
+    report.deletedUploadSessions = await deleteUploadSessions({ expiresAt: { lt: now } });
+
+    // Reservations of uploads that never finished no longer count anyway
+    await prisma.storageReservation.deleteMany({
+      where: { expiresAt: { lt: now } },
+    });
+  }
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+}
@@ -0,0 +1,195 @@
+/**
+ * File Expiry
+ * Expiry presets offered to uploaders, limited by the retention of their plan,
+ * and owner changes to a file's expiry (each one is recorded)
+ */
+
+import type { ExpiryChangeSource } from '@prisma/client';
+import { prisma } from './db';
+import { isDownloadLimitReached } from './downloads';
+import type { Plan } from './plans';
+import type { ExpiryChoice, FileExpiryOption } from './types';
+
+export type ExpiryOption = FileExpiryOption;
+
+// hours: null = never expires
+export const EXPIRY_OPTIONS: { value: ExpiryOption; label: string; hours: number | null }[] = [
+  { value: '1h', label: '1 hour', hours: 1 },
+  { value: '1d', label: '1 day', hours: 24 },
+  { value: '3d', label: '3 days', hours: 72 },
+  { value: '7d', label: '7 days', hours: 7 * 24 },
+  { value: 'never', label: 'Never', hours: null },
+];
+
+/**
+ * Presets a plan may choose, and the one used when none is picked
+ */
+export function getExpiryChoices(plan: Plan): { options: ExpiryChoice[]; defaultOption: ExpiryOption } {
+  const maxHours = plan.maxRetentionHours;
+  const options = EXPIRY_OPTIONS
+    .filter((option) => maxHours === null || (option.hours !== null && option.hours <= maxHours))
+    .map(({ value, label }) => ({ value, label }));
+  const defaultOption = EXPIRY_OPTIONS.find((option) => option.hours === plan.defaultRetentionHours)?.value ?? options[0].value;
+  return { options, defaultOption };
+}
+
+/**
+ * Lifetime in hours for a chosen preset (null = never expires)
+ */
+export function resolveExpiryHours(
+  option: ExpiryOption | undefined,
+  plan: Plan
+): { success: true; hours: number | null } | { success: false; error: string } {
+  if (!option) {
+    return { success: true, hours: plan.defaultRetentionHours };
+  }
+
+  const { options } = getExpiryChoices(plan);
+  if (!options.some((allowed) => allowed.value === option)) {
+    return {
+      success: false,
+      error: option === 'never'
+        ? 'Files that never expire are only available on paid plans.'
+        : `The ${plan.name} plan allows an expiry of at most ${options[options.length - 1].label.toLowerCase()}.`,
+    };
+  }
+
+  return { success: true, hours: EXPIRY_OPTIONS.find((o) => o.value === option)!.hours };
+}
+
+/**
+ * Date a file expires when kept for `hours` from `from` (null = never)
+ */
+export function expiryDateFromHours(hours: number | null, from: Date = new Date()): Date | null {
+  return hours === null ? null : new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Change a file's expiry to `option` counted from now (renew, extend or
+ * shorten), within the owner's plan, and record the change
+ */
+export async function changeFileExpiry(
+  file: { id: string; expiresAt: Date | null; downloadCount: number; maxDownloads: number | null },
+  option: ExpiryOption,
+  plan: Plan,
+  changedBy: { userId: string | null; guestId: string | null }
+): Promise<{ success: true; expiresAt: Date | null } | { success: false; error: string; status: number }> {
+  if (file.expiresAt && new Date() > file.expiresAt) {
+    return { success: false, error: 'File has expired', status: 410 };
+  }
+
+  // Used-up files are already scheduled for removal
+  if (isDownloadLimitReached(file)) {
+    return { success: false, error: 'This file has reached its download limit', status: 410 };
+  }
+
+  const resolved = resolveExpiryHours(option, plan);
+  if (!resolved.success) {
+    return { success: false, error: resolved.error, status: 403 };
+  }
+
+  const expiresAt = expiryDateFromHours(resolved.hours);
+  await prisma.$transaction([
+    prisma.file.update({
+      where: { id: file.id },
+      data: { expiresAt },
+    }),
+    prisma.fileExpiryChange.create({
+      data: {
+        fileId: file.id,
+        previousExpiresAt: file.expiresAt,
+        newExpiresAt: expiresAt,
+        source: 'owner',
+        changedByUserId: changedBy.userId,
+        changedByGuestId: changedBy.guestId,
+      },
+    }),
+  ]);
+
+  return { success: true, expiresAt };
+}
+
+/**
+ * Expire a file that used up its download cap at `removeAt` (unless it
+ * expires earlier anyway). Recorded, so raising the cap can undo it.
+ */
+export async function expireExhaustedFile(file: { id: string; expiresAt: Date | null }, removeAt: Date): Promise<void> {
+  if (file.expiresAt && file.expiresAt <= removeAt) {
+    return;
+  }
+
+  // Only if the expiry hasn't changed since it was read
+  const { count } = await prisma.file.updateMany({
+    where: { id: file.id, expiresAt: file.expiresAt },
+    data: { expiresAt: removeAt },
+  });
+
+  if (count > 0) {
+    await prisma.fileExpiryChange.create({
+      data: {
+        fileId: file.id,
+        previousExpiresAt: file.expiresAt,
+        newExpiresAt: removeAt,
+        source: 'download_limit',
+      },
+    });
+  }
+}
+
+/**
+ * Undo expireExhaustedFile after the owner raised or removed the download
+ * cap, unless the expiry was changed again since
+ * @returns The file's expiry afterwards
+ */
+export async function restoreExpiryAfterLimitRaised(
+  file: { id: string; expiresAt: Date | null },
+  changedBy: { userId: string | null; guestId: string | null }
+): Promise<Date | null> {
+  const last = await prisma.fileExpiryChange.findFirst({
+    where: { fileId: file.id },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!last || last.source !== 'download_limit' || last.newExpiresAt?.getTime() !== file.expiresAt?.getTime()) {
+    return file.expiresAt;
+  }
+
+  const { count } = await prisma.file.updateMany({
+    where: { id: file.id, expiresAt: file.expiresAt },
+    data: { expiresAt: last.previousExpiresAt },
+  });
+
+  if (count === 0) {
+    return file.expiresAt;
+  }
+
+  await prisma.fileExpiryChange.create({
+    data: {
+      fileId: file.id,
+      previousExpiresAt: file.expiresAt,
+      newExpiresAt: last.previousExpiresAt,
+      source: 'download_limit',
+      changedByUserId: changedBy.userId,
+      changedByGuestId: changedBy.guestId,
+    },
+  });
+
+  return last.previousExpiresAt;
+}
+
+/**
+ * Most recent expiry changes of a file, newest first
+ */
+export async function getExpiryHistory(fileId: string, take = 20): Promise<{
+  previousExpiresAt: Date | null;
+  newExpiresAt: Date | null;
+  source: ExpiryChangeSource;
+  createdAt: Date;
+}[]> {
+  return prisma.fileExpiryChange.findMany({
+    where: { fileId },
+    orderBy: { createdAt: 'desc' },
+    take,
+    select: { previousExpiresAt: true, newExpiresAt: true, source: true, createdAt: true },
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * File Access Checks
+ * Shared ownership, account-deletion and password-unlock checks for file and bundle routes
+ */
+
+import { auth } from '@clerk/nextjs/server';
+import type { Visibility } from '@prisma/client';
+import { cookies, headers } from 'next/headers';
+import { prisma } from './db';
+import { unlockCookieName, verifyUnlockToken } from './file-password';
+import { getGuestId } from './guest-id';
+
+interface OwnedResource {
+  userId: string | null;
+  isGuest: boolean;
+  guestId: string | null;
+}
+
+interface AccessCheckedFile extends OwnedResource {
+  id: string;
+  passwordHash: string | null;
+  visibility: Visibility;
+}
+
+/**
+ * Whether the current request owns a file or bundle: the signed-in user who
+ * created it, or (when signed out) the guest device that uploaded it
+ */
+export async function getOwnership(resource: OwnedResource): Promise<{
+  isOwner: boolean;
+  userId: string | null;
+}> {
+  const { userId: clerkUserId } = await auth();
+
+  if (clerkUserId) {
+    return { isOwner: resource.userId === clerkUserId, userId: clerkUserId };
+  }
+
+  const guestId = await getGuestId();
+  return {
+    isOwner: resource.isGuest && !!resource.guestId && guestId === resource.guestId,
+    userId: null,
+  };
+}
+
+/**
+ * Whether a file or bundle belongs to an account in its deletion grace
+ * period. Such files are unavailable (410) to everyone but the owner.
+ */
+export async function isOwnerPendingDeletion(resource: { userId: string | null }): Promise<boolean> {
+  if (!resource.userId) {
+    return false;
+  }
+
+  const owner = await prisma.user.findUnique({
+    where: { id: resource.userId },
+    select: { deletionRequestedAt: true },
+  });
+  return !!owner?.deletionRequestedAt;
+}
+
+/**
+ * Resolve whether the current request owns the file, whether the file is
+ * hidden from it (private files 404 for everyone but the owner), whether its
+ * owner's account is being deleted and whether the download is still locked
+ * behind the file password
+ */
+export async function getFileAccess(file: AccessCheckedFile): Promise<{
+  isOwner: boolean;
+  isHidden: boolean;
+  isUnavailable: boolean;
+  isLocked: boolean;
+  userId: string | null;
+}> {
+  const { isOwner, userId } = await getOwnership(file);
+
+  let isLocked = false;
+  if (file.passwordHash && !isOwner) {
+    const headersList = await headers();
+    const cookieStore = await cookies();
+    const unlockToken = headersList.get('x-unlock-token') ||
+      cookieStore.get(unlockCookieName(file.id))?.value;
+    isLocked = !verifyUnlockToken(unlockToken, file.id, file.passwordHash);
+  }
+
+  const isHidden = file.visibility === 'private' && !isOwner;
+  const isUnavailable = !isOwner && await isOwnerPendingDeletion(file);
+
+  return { isOwner, isHidden, isUnavailable, isLocked, userId };
+}
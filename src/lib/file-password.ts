@@ -0,0 +1,86 @@
+/**
+ * Password Protection for Shared Files
+ * Hashes file passwords and issues short-lived unlock tokens
+ */
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+export const UNLOCK_TOKEN_TTL_MS = 30 * 60 * 1000; // 30 minutes
+export const MIN_PASSWORD_LENGTH = 4;
+export const MAX_PASSWORD_LENGTH = 128;
+
+/**
+ * Name of the cookie holding the unlock token for a file
+ */
+export function unlockCookieName(fileId: string): string {
+  return `unlock_${fileId}`;
+}
+
+/**
+ * Hash a password as `scrypt$<salt>$<hash>` (hex encoded)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const derived = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${derived.toString('hex')}`;
+}
+
+/**
+ * Compare a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const derived = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(derived, expected);
+}
+
+function getUnlockSecret(): string {
+  const secret = process.env.FILE_UNLOCK_SECRET;
+  if (!secret) {
+    throw new Error('FILE_UNLOCK_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * Sign the token over the current password hash, so changing or removing the
+ * password invalidates every token issued for the old one
+ */
+function sign(fileId: string, expiresAt: number, passwordHash: string): string {
+  return createHmac('sha256', getUnlockSecret())
+    .update(`${fileId}.${expiresAt}.${passwordHash}`)
+    .digest('base64url');
+}
+
+/**
+ * Issue an unlock token for a file: `<expiresAt>.<signature>`
+ */
+export function createUnlockToken(fileId: string, passwordHash: string): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + UNLOCK_TOKEN_TTL_MS;
+  return {
+    token: `${expiresAt}.${sign(fileId, expiresAt, passwordHash)}`,
+    expiresAt,
+  };
+}
+
+/**
+ * Check that an unlock token is valid and unexpired for this file and password
+ */
+export function verifyUnlockToken(token: string | null | undefined, fileId: string, passwordHash: string): boolean {
+  if (!token) return false;
+
+  const [expiresAtStr, signature] = token.split('.');
+  const expiresAt = Number(expiresAtStr);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) return false;
+
+  const expected = Buffer.from(sign(fileId, expiresAt, passwordHash));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,54 @@
+/**
+ * File Records
+ * Creates File rows for completed uploads
+ */
+
+import type { StorageProviderName, Visibility } from '@prisma/client';
+import { prisma } from './db';
+import { expiryDateFromHours } from './expiry';
+import { ensureUserRecord } from './users';
+
+export interface UploadedFileRecord {
+  name: string;
+  size: number;
+  type: string;
+  storageProvider: StorageProviderName;
+  key: string;   // Object key within the storage provider
+  userId: string | null;
+  guestId: string | null;
+  maxDownloads: number | null;
+  visibility: Visibility;
+  expiryHours: number | null; // Checked against the uploader's plan (null = never expires)
+}
+
+/**
+ * Create the File row for an upload. Called from the UploadThing
+ * `onUploadComplete` callbacks and when a resumable upload is assembled,
+ * so every value comes from storage or the verified upload checks,
+ * never from the browser.
+ */
+export async function createFileRecord(upload: UploadedFileRecord) {
+  const isGuest = !upload.userId;
+  const expiresAt = expiryDateFromHours(upload.expiryHours);
+
+  // The file references the user row; its profile comes from the Clerk webhook
+  if (upload.userId) {
+    await ensureUserRecord(upload.userId);
+  }
+
+  return prisma.file.create({
+    data: {
+      name: upload.name,
+      size: upload.size,
+      type: upload.type || 'application/octet-stream',
+      storageProvider: upload.storageProvider,
+      storageKey: upload.key,
+      userId: upload.userId, // null for guest uploads
+      guestId: isGuest ? upload.guestId : null, // Store guest ID for guest uploads
+      isGuest,
+      expiresAt,
+      maxDownloads: upload.maxDownloads,
+      visibility: upload.visibility,
+    },
+  });
+}
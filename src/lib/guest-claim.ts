@@ -0,0 +1,119 @@
+/**
+ * Guest Upload Claiming
+ * Moves files uploaded under a browser's guest ID into the account
+ * that signs in on that browser
+ */
+
+import { prisma } from './db';
+import { getStorageUsage } from './storage-quota';
+import { getUserPlan } from './users';
+
+// Cookie remembering when the user declined to claim their guest uploads
+export const CLAIM_DECLINED_COOKIE = 'guestClaimDeclinedAt';
+
+export interface ClaimableFile {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadDate: Date;
+  expiresAt: Date | null;
+}
+
+/**
+ * Guest files for this guest ID that haven't expired yet.
+ * Files uploaded before `declinedAt` are skipped so a declined prompt stays dismissed.
+ */
+export async function getClaimableFiles(guestId: string, declinedAt?: Date): Promise<ClaimableFile[]> {
+  return prisma.file.findMany({
+    where: {
+      guestId,
+      isGuest: true,
+      userId: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      ...(declinedAt && { uploadDate: { gt: declinedAt } }),
+    },
+    select: { id: true, name: true, size: true, type: true, uploadDate: true, expiresAt: true },
+    orderBy: { uploadDate: 'desc' },
+  });
+}
+
+/**
+ * Transfer the guest's files to the user and extend their expiry to the
+ * default retention of the user's plan, counted from the original upload time.
+ * Only files still owned by the guest are updated, so claiming twice is harmless.
+ * Files that don't fit in the account's storage quota stay with the guest
+ * (newest files are claimed first). Extended expiries are recorded like any
+ * other expiry change.
+ */
+export async function claimGuestFiles(
+  userId: string,
+  guestId: string,
+  declinedAt?: Date
+): Promise<{ claimed: ClaimableFile[]; totalSize: number; skipped: ClaimableFile[] }> {
+  const plan = await getUserPlan(userId);
+  const retentionMs = plan.defaultRetentionHours * 60 * 60 * 1000;
+
+  let remainingBytes = (await getStorageUsage({ userId, guestId: null }, plan)).remainingBytes;
+  const claimable: ClaimableFile[] = [];
+  const skipped: ClaimableFile[] = [];
+  for (const file of await getClaimableFiles(guestId, declinedAt)) {
+    if (remainingBytes !== null && file.size > remainingBytes) {
+      skipped.push(file);
+      continue;
+    }
+    claimable.push(file);
+    if (remainingBytes !== null) remainingBytes -= file.size;
+  }
+
+  const files = claimable.map((file) => {
+    const extended = new Date(file.uploadDate.getTime() + retentionMs);
+    return { ...file, expiresAt: file.expiresAt === null || file.expiresAt > extended ? file.expiresAt : extended };
+  });
+
+  const results = await prisma.$transaction(
+    files.map((file) =>
+      prisma.file.updateMany({
+        where: { id: file.id, guestId, isGuest: true, userId: null },
+        data: { userId, isGuest: false, guestId: null, expiresAt: file.expiresAt },
+      })
+    )
+  );
+
+  const claimed = files.filter((_, i) => results[i].count > 0);
+
+  // Record the expiries the claim extended
+  const extended = files
+    .map((file, i) => ({ file, previousExpiresAt: claimable[i].expiresAt, wasClaimed: results[i].count > 0 }))
+    .filter(({ file, previousExpiresAt, wasClaimed }) => wasClaimed && file.expiresAt?.getTime() !== previousExpiresAt?.getTime());
+  if (extended.length > 0) {
+    await prisma.fileExpiryChange.createMany({
+      data: extended.map(({ file, previousExpiresAt }) => ({
+        fileId: file.id,
+        previousExpiresAt,
+        newExpiresAt: file.expiresAt,
+        source: 'claim' as const,
+        changedByUserId: userId,
+      })),
+    });
+  }
+
+  // Bundles move with their files: only those whose files were all claimed
+  // (empty bundles stay behind), and none created before the user declined
+  await prisma.bundle.updateMany({
+    where: {
+      guestId,
+      isGuest: true,
+      userId: null,
+      files: { some: {}, every: { userId } },
+      ...(declinedAt && { createdAt: { gt: declinedAt } }),
+    },
+    data: { userId, isGuest: false, guestId: null },
+  });
+
+  return {
+    claimed,
+    totalSize: claimed.reduce((acc, file) => acc + file.size, 0),
+    skipped,
+  };
+}
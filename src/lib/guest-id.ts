@@ -0,0 +1,87 @@
+/**
+ * Signed Guest Identity
+ * Guest IDs are random values signed with GUEST_ID_SECRET and stored in the
+ * `guestId` cookie as `<guestId>.<signature>`. Only the verified ID is ever
+ * used for ownership checks. Uses Web Crypto so it also runs in middleware.
+ */
+
+import { cookies } from 'next/headers';
+
+export const GUEST_COOKIE_NAME = 'guestId';
+
+export const GUEST_COOKIE_OPTIONS = {
+  maxAge: 60 * 60 * 24 * 30, // 30 days
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+};
+
+const encoder = new TextEncoder();
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  const secret = process.env.GUEST_ID_SECRET;
+  if (!secret) {
+    throw new Error('GUEST_ID_SECRET is not configured');
+  }
+  keyPromise ??= crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+  return keyPromise;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issue a new guest ID and the signed cookie value that carries it
+ */
+export async function createGuestId(): Promise<{ guestId: string; cookieValue: string }> {
+  const guestId = `guest_${toBase64Url(crypto.getRandomValues(new Uint8Array(18)))}`;
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(guestId));
+  return { guestId, cookieValue: `${guestId}.${toBase64Url(new Uint8Array(signature))}` };
+}
+
+/**
+ * Verify a signed cookie value
+ * @returns The guest ID, or null if the value is missing, malformed or tampered with
+ */
+export async function verifyGuestCookie(cookieValue: string | undefined): Promise<string | null> {
+  if (!cookieValue) return null;
+
+  const separator = cookieValue.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const guestId = cookieValue.slice(0, separator);
+  const signature = fromBase64Url(cookieValue.slice(separator + 1));
+  if (!guestId.startsWith('guest_') || !signature) return null;
+
+  const valid = await crypto.subtle.verify('HMAC', await getSigningKey(), signature, encoder.encode(guestId));
+  return valid ? guestId : null;
+}
+
+/**
+ * The verified guest ID of the current request, if any
+ */
+export async function getGuestId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return verifyGuestCookie(cookieStore.get(GUEST_COOKIE_NAME)?.value);
+}
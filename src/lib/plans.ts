@@ -0,0 +1,95 @@
+/**
+ * Plans
+ * The single definition of what each plan allows. Every upload check on the
+ * server and every limit shown in the UI reads from here, so this file must
+ * stay free of server-only imports.
+ */
+
+export type PlanId = 'guest' | 'free' | 'pro' | 'admin';
+
+// Plans an account can be assigned in the database (guests have no account)
+export type AccountPlanId = Exclude<PlanId, 'guest'>;
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  maxFileSize: number;              // Bytes per file
+  maxFilesPerUpload: number;
+  dailyUploads: number;             // Uploads per 24-hour window
+  dailyBytes: number;               // Bytes uploaded per 24-hour window
+  storageQuota: number | null;      // Bytes kept at once (null = unlimited)
+  defaultRetentionHours: number;    // Expiry when the uploader doesn't pick one
+  maxRetentionHours: number | null; // Longest expiry that can be picked (null = may never expire)
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// Byte limits stay below 2GB: file sizes and rate limit byte counters are 32-bit columns
+export const PLANS: Record<PlanId, Plan> = {
+  guest: {
+    id: 'guest',
+    name: 'Guest',
+    maxFileSize: 16 * MB,
+    maxFilesPerUpload: 2,
+    dailyUploads: 10,
+    dailyBytes: 32 * MB,
+    storageQuota: 32 * MB,
+    defaultRetentionHours: 24,
+    maxRetentionHours: 24,
+  },
+  free: {
+    id: 'free',
+    name: 'Free',
+    maxFileSize: 64 * MB,
+    maxFilesPerUpload: 8,
+    dailyUploads: 100,
+    dailyBytes: 512 * MB,
+    storageQuota: 512 * MB,
+    defaultRetentionHours: 72,
+    maxRetentionHours: 7 * 24,
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    maxFileSize: 256 * MB,
+    maxFilesPerUpload: 20,
+    dailyUploads: 500,
+    dailyBytes: 1 * GB,
+    storageQuota: 10 * GB,
+    defaultRetentionHours: 72,
+    maxRetentionHours: null,
+  },
+  admin: {
+    id: 'admin',
+    name: 'Admin',
+    maxFileSize: 512 * MB,
+    maxFilesPerUpload: 50,
+    dailyUploads: 1000,
+    dailyBytes: 1.5 * GB,
+    storageQuota: null,
+    defaultRetentionHours: 72,
+    maxRetentionHours: null,
+  },
+};
+
+export const ACCOUNT_PLAN_IDS: AccountPlanId[] = ['free', 'pro', 'admin'];
+
+// Upload count and byte limits reset this long after the first upload in a window
+export const DAILY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sizes like "64MB" for limits shown to users
+ */
+export function formatPlanBytes(bytes: number): string {
+  return bytes >= GB && bytes % (GB / 2) === 0 ? `${bytes / GB}GB` : `${Math.round(bytes / MB)}MB`;
+}
+
+/**
+ * Hours as "24 hours" or "3 days" for limits shown to users
+ */
+export function formatPlanHours(hours: number): string {
+  if (hours % 24 !== 0) return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  const days = hours / 24;
+  return days === 1 ? '24 hours' : `${days} days`;
+}
@@ -0,0 +1,69 @@
+/**
+ * Rate Limit Responses
+ * The 429 body and RateLimit headers every rate-limited route sends, so
+ * clients can tell why they were limited and when to try again without
+ * reading the message. Used by the browser as well, so this file must stay
+ * free of server-only imports.
+ */
+
+// Which limit was hit: the number of requests or the bytes sent in the window
+export type RateLimitReason = 'rate_limit_requests' | 'rate_limit_bytes';
+
+export type RateLimitErrorBody = {
+  error: string;        // Human-readable message
+  reason: RateLimitReason;
+  limit: number;        // Requests, or bytes for rate_limit_bytes
+  remaining: number;    // Same unit as limit
+  resetAt: number;      // When the window resets (ms since epoch)
+  retryAfter: number;   // Seconds until the request may be retried
+};
+
+/**
+ * RateLimit-* headers (IETF draft, reset as seconds from now) plus
+ * Retry-After when the request was refused
+ */
+export function rateLimitHeaders(info: {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  retryAfter?: number;
+}): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(info.limit),
+    'RateLimit-Remaining': String(info.remaining),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((info.resetAt - Date.now()) / 1000))),
+  };
+
+  if (info.retryAfter !== undefined) {
+    headers['Retry-After'] = String(info.retryAfter);
+  }
+
+  return headers;
+}
+
+/**
+ * Whether a parsed response body is a rate limit error
+ */
+export function isRateLimitErrorBody(value: unknown): value is RateLimitErrorBody {
+  if (!value || typeof value !== 'object') return false;
+  const body = value as Record<string, unknown>;
+  return (
+    (body.reason === 'rate_limit_requests' || body.reason === 'rate_limit_bytes') &&
+    typeof body.resetAt === 'number' &&
+    typeof body.retryAfter === 'number'
+  );
+}
+
+/**
+ * Countdown text for a number of seconds, e.g. "2h 05m" or "42s"
+ */
+export function formatCountdown(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(secs).padStart(2, '0')}s`;
+  return `${secs}s`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Postgres-backed rate limit store (via Prisma)
+ * Each check-and-increment is a single upsert statement, so concurrent
+ * requests from different instances can't both slip past the limit
+ */
+
+import { prisma } from './db';
+import type { RateLimitConfig, RateLimitConsumeResult, RateLimitEntry, RateLimitStore } from './rate-limit-store';
+
+interface CounterRow {
+  count: number;
+  totalBytes: number;
+  windowStart: Date;
+}
+
+function toEntry(row: CounterRow): RateLimitEntry {
+  return {
+    count: row.count,
+    firstAttempt: row.windowStart.getTime(),
+    totalBytes: row.totalBytes,
+  };
+}
+
+export class PrismaRateLimitStore implements RateLimitStore {
+  async consume(key: string, bytes: number, config: RateLimitConfig, now: number): Promise<RateLimitConsumeResult> {
+    const nowDate = new Date(now);
+    // Windows that started before this instant have expired
+    const windowCutoff = new Date(now - config.windowMs);
+
+    // The conflict branch either restarts an expired window or increments the
+    // current one; the WHERE clause skips the update when the limit is reached,
+    // in which case no row is returned.
+    const updated = await prisma.$queryRaw<CounterRow[]>`
+      INSERT INTO "RateLimitCounter" ("key", "count", "totalBytes", "windowStart", "updatedAt")
+      VALUES (${key}, 1, ${bytes}, ${nowDate}, ${nowDate})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "RateLimitCounter"."windowStart" < ${windowCutoff}
+          THEN 1 ELSE "RateLimitCounter"."count" + 1 END,
+        "totalBytes" = CASE WHEN "RateLimitCounter"."windowStart" < ${windowCutoff}
+          THEN ${bytes} ELSE "RateLimitCounter"."totalBytes" + ${bytes} END,
+        "windowStart" = CASE WHEN "RateLimitCounter"."windowStart" < ${windowCutoff}
+          THEN ${nowDate} ELSE "RateLimitCounter"."windowStart" END,
+        "updatedAt" = ${nowDate}
+      WHERE "RateLimitCounter"."windowStart" < ${windowCutoff}
+        OR (
+          "RateLimitCounter"."count" < ${config.maxRequests}
+          AND "RateLimitCounter"."totalBytes" + ${bytes} <= ${config.maxBytes}
+        )
+      RETURNING "count", "totalBytes", "windowStart"
+    `;
+
+    if (updated.length > 0) {
+      return { allowed: true, entry: toEntry(updated[0]) };
+    }
+
+    const current = await this.get(key);
+    return {
+      allowed: false,
+      entry: current ?? { count: 0, firstAttempt: now, totalBytes: 0 },
+    };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const row = await prisma.rateLimitCounter.findUnique({
+      where: { key },
+      select: { count: true, totalBytes: true, windowStart: true },
+    });
+    return row ? toEntry(row) : null;
+  }
+
+  async release(key: string, bytes: number): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE "RateLimitCounter"
+      SET "count" = GREATEST("count" - 1, 0),
+          "totalBytes" = GREATEST("totalBytes" - ${bytes}, 0),
+          "updatedAt" = ${new Date()}
+      WHERE "key" = ${key}
+    `;
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.rateLimitCounter.deleteMany({ where: { key } });
+  }
+}
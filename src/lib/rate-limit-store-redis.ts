@@ -0,0 +1,117 @@
+/**
+ * Redis-backed rate limit store
+ * Works with any server speaking the Redis protocol (Redis, Valkey, Dragonfly,
+ * a local `redis-server` for tests). Updates run as Lua scripts so each
+ * check-and-increment is atomic.
+ */
+
+import Redis from 'ioredis';
+import type { RateLimitConfig, RateLimitConsumeResult, RateLimitEntry, RateLimitStore } from './rate-limit-store';
+
+const KEY_PREFIX = 'ratelimit:';
+
+// KEYS[1] = counter hash
+// ARGV = bytes, now, windowMs, maxRequests, maxBytes
+// Returns { allowed, count, totalBytes, firstAttempt }
+const CONSUME_SCRIPT = `
+local bytes = tonumber(ARGV[1])
+local now = tonumber(ARGV[2])
+local windowMs = tonumber(ARGV[3])
+local maxRequests = tonumber(ARGV[4])
+local maxBytes = tonumber(ARGV[5])
+
+local data = redis.call('HMGET', KEYS[1], 'count', 'totalBytes', 'firstAttempt')
+local count = tonumber(data[1]) or 0
+local totalBytes = tonumber(data[2]) or 0
+local firstAttempt = tonumber(data[3])
+
+if not firstAttempt or now - firstAttempt > windowMs then
+  count = 0
+  totalBytes = 0
+  firstAttempt = now
+end
+
+if count >= maxRequests or totalBytes + bytes > maxBytes then
+  return { 0, count, totalBytes, firstAttempt }
+end
+
+count = count + 1
+totalBytes = totalBytes + bytes
+redis.call('HSET', KEYS[1], 'count', count, 'totalBytes', totalBytes, 'firstAttempt', firstAttempt)
+redis.call('PEXPIREAT', KEYS[1], firstAttempt + windowMs)
+return { 1, count, totalBytes, firstAttempt }
+`;
+
+// KEYS[1] = counter hash, ARGV[1] = bytes
+const RELEASE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+local count = tonumber(redis.call('HGET', KEYS[1], 'count')) or 0
+local totalBytes = tonumber(redis.call('HGET', KEYS[1], 'totalBytes')) or 0
+redis.call('HSET', KEYS[1],
+  'count', math.max(0, count - 1),
+  'totalBytes', math.max(0, totalBytes - tonumber(ARGV[1])))
+return 1
+`;
+
+type RedisWithScripts = Redis & {
+  rateLimitConsume(key: string, ...args: (string | number)[]): Promise<[number, number, number, number]>;
+  rateLimitRelease(key: string, bytes: number): Promise<number>;
+};
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisWithScripts;
+
+  constructor(urlOrClient: string | Redis) {
+    const client = typeof urlOrClient === 'string'
+      ? new Redis(urlOrClient, { maxRetriesPerRequest: 2 })
+      : urlOrClient;
+
+    client.defineCommand('rateLimitConsume', { numberOfKeys: 1, lua: CONSUME_SCRIPT });
+    client.defineCommand('rateLimitRelease', { numberOfKeys: 1, lua: RELEASE_SCRIPT });
+    this.client = client as RedisWithScripts;
+  }
+
+  async consume(key: string, bytes: number, config: RateLimitConfig, now: number): Promise<RateLimitConsumeResult> {
+    const [allowed, count, totalBytes, firstAttempt] = await this.client.rateLimitConsume(
+      KEY_PREFIX + key,
+      bytes,
+      now,
+      config.windowMs,
+      config.maxRequests,
+      config.maxBytes
+    );
+
+    return {
+      allowed: allowed === 1,
+      entry: { count, totalBytes, firstAttempt },
+    };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const data = await this.client.hgetall(KEY_PREFIX + key);
+    if (!data.firstAttempt) return null;
+
+    return {
+      count: Number(data.count) || 0,
+      firstAttempt: Number(data.firstAttempt),
+      totalBytes: Number(data.totalBytes) || 0,
+    };
+  }
+
+  async release(key: string, bytes: number): Promise<void> {
+    await this.client.rateLimitRelease(KEY_PREFIX + key, bytes);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(KEY_PREFIX + key);
+  }
+
+  /**
+   * Close the underlying connection (for scripts and tests)
+   */
+  async disconnect(): Promise<void> {
+    await this.client.quit();
+  }
+}
@@ -0,0 +1,114 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { MemoryRateLimitStore, type RateLimitConfig, type RateLimitStore } from './rate-limit-store';
+import { RedisRateLimitStore } from './rate-limit-store-redis';
+
+const config: RateLimitConfig = { windowMs: 60_000, maxRequests: 3, maxBytes: 1000 };
+
+// Runs the Lua scripts in ioredis-mock, or against a real server with REDIS_TEST_URL
+function createRedisStore(): RedisRateLimitStore {
+  const client = process.env.REDIS_TEST_URL
+    ? new Redis(process.env.REDIS_TEST_URL)
+    : (new RedisMock() as unknown as Redis);
+  return new RedisRateLimitStore(client);
+}
+
+const redisStore = createRedisStore();
+
+afterAll(async () => {
+  await redisStore.disconnect();
+});
+
+describe.each<[string, () => RateLimitStore]>([
+  ['MemoryRateLimitStore', () => new MemoryRateLimitStore()],
+  ['RedisRateLimitStore', () => redisStore],
+])('%s', (_name, createStore) => {
+  let store: RateLimitStore;
+  let key: string;
+  let now: number;
+
+  beforeEach(async () => {
+    store = createStore();
+    key = `test:${Math.random().toString(36).slice(2)}`;
+    now = Date.now();
+    await store.reset(key);
+  });
+
+  it('counts requests and bytes', async () => {
+    const first = await store.consume(key, 100, config, now);
+    const second = await store.consume(key, 200, config, now + 1);
+
+    expect(first).toEqual({ allowed: true, entry: { count: 1, totalBytes: 100, firstAttempt: now } });
+    expect(second).toEqual({ allowed: true, entry: { count: 2, totalBytes: 300, firstAttempt: now } });
+    expect(await store.get(key)).toEqual({ count: 2, totalBytes: 300, firstAttempt: now });
+  });
+
+  it('refuses once the request count is used up', async () => {
+    for (let i = 0; i < config.maxRequests; i++) {
+      expect((await store.consume(key, 0, config, now)).allowed).toBe(true);
+    }
+
+    const refused = await store.consume(key, 0, config, now);
+
+    expect(refused).toEqual({ allowed: false, entry: { count: 3, totalBytes: 0, firstAttempt: now } });
+    expect(await store.get(key)).toEqual({ count: 3, totalBytes: 0, firstAttempt: now });
+  });
+
+  it('refuses a request that would go over the byte limit', async () => {
+    await store.consume(key, 900, config, now);
+
+    const refused = await store.consume(key, 101, config, now);
+    const fits = await store.consume(key, 100, config, now);
+
+    expect(refused).toEqual({ allowed: false, entry: { count: 1, totalBytes: 900, firstAttempt: now } });
+    expect(fits).toEqual({ allowed: true, entry: { count: 2, totalBytes: 1000, firstAttempt: now } });
+  });
+
+  it('starts a new window once the old one has passed', async () => {
+    for (let i = 0; i < config.maxRequests; i++) {
+      await store.consume(key, 300, config, now);
+    }
+    expect((await store.consume(key, 0, config, now + config.windowMs)).allowed).toBe(false);
+
+    const later = now + config.windowMs + 1;
+    const result = await store.consume(key, 50, config, later);
+
+    expect(result).toEqual({ allowed: true, entry: { count: 1, totalBytes: 50, firstAttempt: later } });
+  });
+
+  it('gives back a request and its bytes on release', async () => {
+    for (let i = 0; i < config.maxRequests; i++) {
+      await store.consume(key, 300, config, now);
+    }
+
+    await store.release(key, 300);
+
+    expect(await store.get(key)).toEqual({ count: 2, totalBytes: 600, firstAttempt: now });
+    expect((await store.consume(key, 300, config, now)).allowed).toBe(true);
+  });
+
+  it('never releases below zero', async () => {
+    await store.consume(key, 100, config, now);
+
+    await store.release(key, 500);
+    await store.release(key, 500);
+
+    expect(await store.get(key)).toEqual({ count: 0, totalBytes: 0, firstAttempt: now });
+  });
+
+  it('ignores releases and reads of unknown keys', async () => {
+    await store.release(key, 100);
+
+    expect(await store.get(key)).toBeNull();
+  });
+
+  it('drops the counters on reset', async () => {
+    await store.consume(key, 100, config, now);
+
+    await store.reset(key);
+
+    expect(await store.get(key)).toBeNull();
+    expect((await store.consume(key, 0, config, now)).entry.count).toBe(1);
+  });
+});
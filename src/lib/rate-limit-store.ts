@@ -0,0 +1,160 @@
+/**
+ * Rate Limit Storage Backends for LiteShare
+ * Counters live behind a small interface so they can be shared between
+ * serverless instances (Postgres, Redis) or kept in memory for tests
+ */
+
+export interface RateLimitEntry {
+  count: number;
+  firstAttempt: number;
+  totalBytes: number;
+}
+
+export interface RateLimitConfig {
+  windowMs: number;        // Time window in milliseconds (24 hours)
+  maxRequests: number;     // Max requests per window
+  maxBytes: number;        // Max total bytes per window
+}
+
+export interface RateLimitConsumeResult {
+  allowed: boolean;        // Whether the counters were incremented
+  entry: RateLimitEntry;   // Counters after the attempt
+}
+
+export interface RateLimitStore {
+  /**
+   * Atomically check the limits and, if the request fits, count it.
+   * Starts a fresh window when the stored one is older than `config.windowMs`.
+   */
+  consume(key: string, bytes: number, config: RateLimitConfig, now: number): Promise<RateLimitConsumeResult>;
+
+  /**
+   * Read the current counters without modifying them
+   */
+  get(key: string): Promise<RateLimitEntry | null>;
+
+  /**
+   * Give back one request and `bytes` of usage, never going below 0
+   */
+  release(key: string, bytes: number): Promise<void>;
+
+  /**
+   * Drop all counters for a key
+   */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * In-memory store. Counters are per process and lost on restart,
+ * so this is only suitable for tests and local development.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+  private maxWindowMs = 0;
+  private lastPrune = 0;
+
+  async consume(key: string, bytes: number, config: RateLimitConfig, now: number): Promise<RateLimitConsumeResult> {
+    this.prune(config.windowMs, now);
+
+    let entry = this.entries.get(key);
+    if (!entry || now - entry.firstAttempt > config.windowMs) {
+      entry = { count: 0, firstAttempt: now, totalBytes: 0 };
+    }
+
+    if (entry.count >= config.maxRequests || entry.totalBytes + bytes > config.maxBytes) {
+      return { allowed: false, entry: { ...entry } };
+    }
+
+    const updated = {
+      count: entry.count + 1,
+      firstAttempt: entry.firstAttempt,
+      totalBytes: entry.totalBytes + bytes,
+    };
+    this.entries.set(key, updated);
+
+    return { allowed: true, entry: { ...updated } };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key);
+    return entry ? { ...entry } : null;
+  }
+
+  async release(key: string, bytes: number): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.count = Math.max(0, entry.count - 1);
+      entry.totalBytes = Math.max(0, entry.totalBytes - bytes);
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove entries older than the longest window seen, at most every 10 minutes
+   */
+  private prune(windowMs: number, now: number) {
+    this.maxWindowMs = Math.max(this.maxWindowMs, windowMs);
+    if (now - this.lastPrune < 10 * 60 * 1000) return;
+
+    this.lastPrune = now;
+    for (const [key, entry] of this.entries.entries()) {
+      if (now - entry.firstAttempt > this.maxWindowMs) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+type RateLimitBackend = 'memory' | 'postgres' | 'redis';
+
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitStore: Promise<RateLimitStore> | undefined;
+};
+
+/**
+ * Pick the backend from RATE_LIMIT_STORE, falling back to Redis when
+ * REDIS_URL is set and Postgres otherwise
+ */
+function resolveBackend(): RateLimitBackend {
+  const configured = process.env.RATE_LIMIT_STORE;
+  if (configured === 'memory' || configured === 'postgres' || configured === 'redis') {
+    return configured;
+  }
+  return process.env.REDIS_URL ? 'redis' : 'postgres';
+}
+
+async function createRateLimitStore(): Promise<RateLimitStore> {
+  switch (resolveBackend()) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'redis': {
+      const { RedisRateLimitStore } = await import('./rate-limit-store-redis');
+      return new RedisRateLimitStore(process.env.REDIS_URL || 'redis://localhost:6379');
+    }
+    case 'postgres': {
+      const { PrismaRateLimitStore } = await import('./rate-limit-store-prisma');
+      return new PrismaRateLimitStore();
+    }
+  }
+}
+
+/**
+ * Get the shared rate limit store for this process
+ */
+export function getRateLimitStore(): Promise<RateLimitStore> {
+  // Cache the promise so concurrent callers share a single connection
+  if (!globalForRateLimit.rateLimitStore) {
+    globalForRateLimit.rateLimitStore = createRateLimitStore();
+  }
+  return globalForRateLimit.rateLimitStore;
+}
+
+/**
+ * Replace the shared store (used by tests and scripts)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalForRateLimit.rateLimitStore = Promise.resolve(store);
+}
@@ -3,33 +3,9 @@
  * Tracks upload attempts and enforces limits per user/IP
  */
 
-interface RateLimitEntry {
-  count: number;
-  firstAttempt: number;
-  totalBytes: number;
-}
-
-interface RateLimitConfig {
-  windowMs: number;        // Time window in milliseconds (24 hours)
-  maxRequests: number;     // Max requests per window
-  maxBytes: number;        // Max total bytes per window
-}
-
-// In-memory store (for production, use Redis or similar)
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Rate limit configurations - Reset every 24 hours (1 day)
-const GUEST_RATE_LIMIT: RateLimitConfig = {
-  windowMs: 24 * 60 * 60 * 1000,    // 24 hours (1 day)
-  maxRequests: 10,                   // 10 uploads per day
-  maxBytes: 32 * 1024 * 1024,       // 32MB total per day (2 files × 16MB)
-};
-
-const AUTH_RATE_LIMIT: RateLimitConfig = {
-  windowMs: 24 * 60 * 60 * 1000,    // 24 hours (1 day)
-  maxRequests: 100,                  // 100 uploads per day
-  maxBytes: 512 * 1024 * 1024,      // 512MB total per day (8 files × 64MB)
-};
+import { getRateLimitStore, type RateLimitConfig } from './rate-limit-store';
+import { DAILY_WINDOW_MS, type Plan } from './plans';
+import type { RateLimitReason } from './rate-limit-response';
 
 const STRICT_RATE_LIMIT: RateLimitConfig = {
   windowMs: 60 * 1000,           // 1 minute
@@ -37,28 +13,31 @@ const STRICT_RATE_LIMIT: RateLimitConfig = {
   maxBytes: 100 * 1024 * 1024,   // 100MB per minute
 };
 
-/**
- * Get rate limit config based on user type
- */
-function getConfig(isAuthenticated: boolean): RateLimitConfig {
-  return isAuthenticated ? AUTH_RATE_LIMIT : GUEST_RATE_LIMIT;
-}
+// Password guesses on protected files - counted per file and per IP
+const PASSWORD_ATTEMPT_LIMITS = {
+  file: {
+    windowMs: 15 * 60 * 1000,    // 15 minutes
+    maxRequests: 20,             // 20 guesses per file from all visitors
+    maxBytes: 0,
+  },
+  ip: {
+    windowMs: 15 * 60 * 1000,    // 15 minutes
+    maxRequests: 10,             // 10 guesses per IP across all files
+    maxBytes: 0,
+  },
+} satisfies Record<string, RateLimitConfig>;
 
 /**
- * Clean up expired entries from the store
+ * Daily upload limits of a plan
  */
-function cleanupExpiredEntries() {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now - entry.firstAttempt > GUEST_RATE_LIMIT.windowMs) {
-      rateLimitStore.delete(key);
-    }
-  }
+function getConfig(plan: Plan): RateLimitConfig {
+  return {
+    windowMs: DAILY_WINDOW_MS,
+    maxRequests: plan.dailyUploads,
+    maxBytes: plan.dailyBytes,
+  };
 }
 
-// Run cleanup every 10 minutes
-setInterval(cleanupExpiredEntries, 10 * 60 * 1000);
-
 /**
  * Generate a rate limit key based on user ID or IP
  */
@@ -68,13 +47,14 @@ export function getRateLimitKey(userId: string | null, ip: string): string {
 
 /**
  * Check and update rate limit
+ * The check and the increment happen atomically in the configured store
  * @returns Object with success status and limit info
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   key: string,
   fileSize: number,
-  isAuthenticated: boolean = false
-): {
+  plan: Plan
+): Promise<{
   success: boolean;
   remaining: number;
   resetAt: number;
@@ -82,65 +62,56 @@ export function checkRateLimit(
   remainingBytes: number;
   totalBytes: number;
   retryAfter?: number;
-  reason?: string;
-} {
-  const config = getConfig(isAuthenticated);
+  reason?: RateLimitReason;
+}> {
+  const config = getConfig(plan);
   const now = Date.now();
+  const store = await getRateLimitStore();
 
-  let entry = rateLimitStore.get(key);
-
-  // If no entry or expired, create new one
-  if (!entry || now - entry.firstAttempt > config.windowMs) {
-    entry = {
-      count: 0,
-      firstAttempt: now,
-      totalBytes: 0,
+  // A single request larger than the whole window can never succeed
+  if (fileSize > config.maxBytes) {
+    const entry = await store.get(key);
+    const active = entry && now - entry.firstAttempt <= config.windowMs ? entry : null;
+    const resetAt = active ? active.firstAttempt + config.windowMs : now + config.windowMs;
+    return {
+      success: false,
+      remaining: Math.max(0, config.maxRequests - (active?.count ?? 0)),
+      resetAt,
+      limit: config.maxRequests,
+      remainingBytes: Math.max(0, config.maxBytes - (active?.totalBytes ?? 0)),
+      totalBytes: active?.totalBytes ?? 0,
+      retryAfter: Math.ceil((resetAt - now) / 1000),
+      reason: 'rate_limit_bytes',
     };
   }
 
+  const { allowed, entry } = await store.consume(key, fileSize, config, now);
+
   const windowEnd = entry.firstAttempt + config.windowMs;
   const remaining = Math.max(0, config.maxRequests - entry.count);
   const remainingBytes = Math.max(0, config.maxBytes - entry.totalBytes);
   const resetAt = windowEnd;
 
-  // Check if this request would exceed limits
-  if (entry.count >= config.maxRequests) {
-    return {
-      success: false,
-      remaining: 0,
-      resetAt,
-      limit: config.maxRequests,
-      remainingBytes: 0,
-      totalBytes: entry.totalBytes,
-      retryAfter: Math.ceil((windowEnd - now) / 1000),
-      reason: 'rate_limit_requests',
-    };
-  }
-
-  if (entry.totalBytes + fileSize > config.maxBytes) {
+  if (!allowed) {
+    const requestsExhausted = entry.count >= config.maxRequests;
     return {
       success: false,
       remaining,
       resetAt,
       limit: config.maxRequests,
-      remainingBytes,
+      remainingBytes: requestsExhausted ? 0 : remainingBytes,
       totalBytes: entry.totalBytes,
       retryAfter: Math.ceil((windowEnd - now) / 1000),
-      reason: 'rate_limit_bytes',
+      reason: requestsExhausted ? 'rate_limit_requests' : 'rate_limit_bytes',
     };
   }
 
-  // Update the entry
-  entry.count += 1;
-  entry.totalBytes += fileSize;
-  rateLimitStore.set(key, entry);
-
   return {
     success: true,
-    remaining: remaining - 1,
+    remaining,
     resetAt,
     limit: config.maxRequests,
-    remainingBytes: remainingBytes - fileSize,
+    remainingBytes,
     totalBytes: entry.totalBytes,
   };
 }
@@ -148,21 +119,22 @@ export function checkRateLimit(
 /**
  * Get current rate limit status without incrementing
  */
-export function getRateLimitStatus(
+export async function getRateLimitStatus(
   key: string,
-  isAuthenticated: boolean = false
-): {
+  plan: Plan
+): Promise<{
   remaining: number;
   resetAt: number;
   limit: number;
   remainingBytes: number;
   totalBytes: number;
   percentageUsed: number;
-} {
-  const config = getConfig(isAuthenticated);
+}> {
+  const config = getConfig(plan);
   const now = Date.now();
 
-  let entry = rateLimitStore.get(key);
+  const store = await getRateLimitStore();
+  const entry = await store.get(key);
 
   // If no entry or expired, return full limits
   if (!entry || now - entry.firstAttempt > config.windowMs) {
@@ -193,22 +165,77 @@ export function getRateLimitStatus(
 /**
  * Reset rate limit for a specific key (admin function)
  */
-export function resetRateLimit(key: string): void {
-  rateLimitStore.delete(key);
+export async function resetRateLimit(key: string): Promise<void> {
+  const store = await getRateLimitStore();
+  await store.reset(key);
+}
+
+/**
+ * Release rate limit usage (called when an upload is cancelled before it
+ * completes; deleting a finished file doesn't give uploads back)
+ */
+export async function releaseRateLimit(key: string, fileSize: number): Promise<void> {
+  // Count and bytes are decreased atomically, never below 0
+  const store = await getRateLimitStore();
+  await store.release(key, fileSize);
 }
 
 /**
- * Release rate limit usage (called when file is deleted)
+ * Count a password attempt against both the file and the caller's IP
+ * @returns Whether the attempt may proceed, the limit that applies (the one
+ * that refused it, otherwise the caller's IP limit) and seconds to wait if refused
  */
-export function releaseRateLimit(key: string, fileSize: number): void {
-  const entry = rateLimitStore.get(key);
-  if (entry) {
-    // Decrease count but not below 0
-    entry.count = Math.max(0, entry.count - 1);
-    // Decrease total bytes but not below 0
-    entry.totalBytes = Math.max(0, entry.totalBytes - fileSize);
-    rateLimitStore.set(key, entry);
+export async function checkPasswordAttempt(
+  fileId: string,
+  ip: string
+): Promise<{ success: boolean; limit: number; remaining: number; resetAt: number; retryAfter?: number }> {
+  const store = await getRateLimitStore();
+  const now = Date.now();
+  const fileKey = `pw:file:${fileId}`;
+  const ipKey = `pw:ip:${ip}`;
+
+  const fileResult = await store.consume(fileKey, 0, PASSWORD_ATTEMPT_LIMITS.file, now);
+  if (!fileResult.allowed) {
+    const resetAt = fileResult.entry.firstAttempt + PASSWORD_ATTEMPT_LIMITS.file.windowMs;
+    return {
+      success: false,
+      limit: PASSWORD_ATTEMPT_LIMITS.file.maxRequests,
+      remaining: 0,
+      resetAt,
+      retryAfter: Math.ceil((resetAt - now) / 1000),
+    };
+  }
+
+  const ipResult = await store.consume(ipKey, 0, PASSWORD_ATTEMPT_LIMITS.ip, now);
+  const ipResetAt = ipResult.entry.firstAttempt + PASSWORD_ATTEMPT_LIMITS.ip.windowMs;
+  if (!ipResult.allowed) {
+    // Don't let a blocked IP eat into the file's budget
+    await store.release(fileKey, 0);
+    return {
+      success: false,
+      limit: PASSWORD_ATTEMPT_LIMITS.ip.maxRequests,
+      remaining: 0,
+      resetAt: ipResetAt,
+      retryAfter: Math.ceil((ipResetAt - now) / 1000),
+    };
   }
+
+  return {
+    success: true,
+    limit: PASSWORD_ATTEMPT_LIMITS.ip.maxRequests,
+    remaining: Math.max(0, PASSWORD_ATTEMPT_LIMITS.ip.maxRequests - ipResult.entry.count),
+    resetAt: ipResetAt,
+  };
+}
+
+/**
+ * Give back a password attempt (called when the password was correct,
+ * so only wrong guesses count towards the limit)
+ */
+export async function releasePasswordAttempt(fileId: string, ip: string): Promise<void> {
+  const store = await getRateLimitStore();
+  await store.release(`pw:file:${fileId}`, 0);
+  await store.release(`pw:ip:${ip}`, 0);
 }
 
 /**
@@ -0,0 +1,333 @@
+/**
+ * Resumable Uploads (browser)
+ * Sends a file to /api/uploads in chunks. The file and its session are kept
+ * in IndexedDB until the upload finishes, so after a network drop or a page
+ * reload only the chunks the server hasn't received are sent again.
+ */
+
+import type { FileExpiryOption, FileVisibility } from './types';
+import { isRateLimitErrorBody, type RateLimitErrorBody } from './rate-limit-response';
+
+const DB_NAME = 'liteshare-uploads';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+const CHUNK_TIMEOUT_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+export type ResumableUploadState = 'uploading' | 'paused' | 'resuming';
+
+// What is kept in IndexedDB for each unfinished upload
+export interface PendingUpload {
+  sessionId: string;
+  file: File;
+  chunkSize: number;
+  totalChunks: number;
+  createdAt: number;
+}
+
+export interface ResumableUploadCallbacks {
+  onProgress?: (progress: { uploadedBytes: number; totalBytes: number; bytesPerSecond: number }) => void;
+  onStateChange?: (state: ResumableUploadState) => void;
+  onSessionCreated?: (sessionId: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * A failed request to the upload API. `status` is 0 when the request never
+ * got a response (offline, timeout, connection reset); `rateLimit` is set
+ * when the upload was refused by a rate limit.
+ */
+export class UploadRequestError extends Error {
+  constructor(message: string, public status: number, public rateLimit: RateLimitErrorBody | null = null) {
+    super(message);
+    this.name = 'UploadRequestError';
+  }
+
+  // Network errors and server hiccups are worth retrying; rejected input is not
+  get retryable(): boolean {
+    return this.status === 0 || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'sessionId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runInStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Uploads that were interrupted by a reload or closed tab, oldest first
+ */
+export async function listPendingUploads(): Promise<PendingUpload[]> {
+  if (typeof indexedDB === 'undefined') return [];
+  const pending = await runInStore('readonly', (store) => store.getAll() as IDBRequest<PendingUpload[]>);
+  return pending.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+async function removePendingUpload(sessionId: string): Promise<void> {
+  try {
+    await runInStore('readwrite', (store) => store.delete(sessionId));
+  } catch (error) {
+    console.error('Error removing saved upload:', error);
+  }
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<{ status: number; data: T }> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new UploadRequestError('Network error', 0);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok && response.status !== 409) {
+    throw new UploadRequestError(
+      data.error || `Request failed with status ${response.status}`,
+      response.status,
+      isRateLimitErrorBody(data) ? data : null
+    );
+  }
+  return { status: response.status, data };
+}
+
+/**
+ * PUT one chunk with XMLHttpRequest, which (unlike fetch) reports upload progress
+ */
+function putChunk(
+  url: string,
+  chunk: Blob,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.timeout = CHUNK_TIMEOUT_MS;
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const settle = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      settle();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = `Chunk upload failed with status ${xhr.status}`;
+      try {
+        message = JSON.parse(xhr.responseText).error || message;
+      } catch {
+        // Not JSON, keep the generic message
+      }
+      reject(new UploadRequestError(message, xhr.status));
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new UploadRequestError('Network error', 0));
+    };
+    xhr.ontimeout = () => {
+      settle();
+      reject(new UploadRequestError('Chunk upload timed out', 0));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+
+    xhr.send(chunk);
+  });
+}
+
+/**
+ * Wait before retrying: exponential backoff, cut short when the browser
+ * comes back online
+ */
+function waitForRetry(attempt: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const delay = Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempt);
+
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+
+    const timer = setTimeout(done, delay);
+    window.addEventListener('online', done);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Send the missing chunks of a session and assemble the file.
+ * Keeps retrying retryable failures (reporting `paused`, then `resuming`)
+ * until the upload completes, is cancelled or fails for good.
+ * @returns The ID of the new file
+ */
+export async function resumeUpload(
+  pending: PendingUpload,
+  callbacks: ResumableUploadCallbacks = {},
+  receivedChunks?: number[]
+): Promise<string> {
+  const { sessionId, file, chunkSize, totalChunks } = pending;
+  const { onProgress, onStateChange, signal } = callbacks;
+  const baseUrl = `/api/uploads/${sessionId}`;
+
+  let received = receivedChunks ? new Set(receivedChunks) : null;
+  let attempt = 0;
+  let bytesPerSecond = 0;
+
+  const chunkBytes = (index: number) => Math.min(chunkSize, file.size - index * chunkSize);
+  const receivedBytes = () => Array.from(received ?? []).reduce((acc, index) => acc + chunkBytes(index), 0);
+
+  try {
+    while (true) {
+      try {
+        // Ask the server what it has (always the case after a pause or reload)
+        if (!received) {
+          onStateChange?.('resuming');
+          const { data } = await requestJson<{ receivedChunks: number[]; fileId: string | null }>(baseUrl, { signal });
+          if (data.fileId) {
+            await removePendingUpload(sessionId);
+            return data.fileId;
+          }
+          received = new Set(data.receivedChunks);
+        }
+
+        onStateChange?.('uploading');
+        onProgress?.({ uploadedBytes: receivedBytes(), totalBytes: file.size, bytesPerSecond });
+
+        for (let index = 0; index < totalChunks; index++) {
+          if (received.has(index)) continue;
+
+          const start = index * chunkSize;
+          const startedAt = performance.now();
+          const alreadyUploaded = receivedBytes();
+
+          await putChunk(
+            `${baseUrl}/chunks/${index}`,
+            file.slice(start, start + chunkBytes(index)),
+            (loaded) => {
+              const seconds = (performance.now() - startedAt) / 1000;
+              if (seconds > 0.2) bytesPerSecond = loaded / seconds;
+              onProgress?.({ uploadedBytes: alreadyUploaded + loaded, totalBytes: file.size, bytesPerSecond });
+            },
+            signal
+          );
+
+          received.add(index);
+          attempt = 0;
+        }
+
+        const { status, data } = await requestJson<{ fileId?: string; missingChunks?: number[] }>(
+          `${baseUrl}/complete`,
+          { method: 'POST', signal }
+        );
+
+        if (status === 409 && data.missingChunks) {
+          // Chunks the server lost track of; send them again
+          for (const index of data.missingChunks) received.delete(index);
+          continue;
+        }
+
+        if (!data.fileId) {
+          // Another request is still assembling the file, check back shortly
+          await waitForRetry(1, signal);
+          received = null;
+          continue;
+        }
+
+        await removePendingUpload(sessionId);
+        return data.fileId;
+      } catch (error) {
+        if (!(error instanceof UploadRequestError) || !error.retryable) throw error;
+
+        onStateChange?.('paused');
+        await waitForRetry(attempt++, signal);
+        received = null;
+      }
+    }
+  } catch (error) {
+    // The session is gone for good (expired, or not ours any more)
+    if (error instanceof UploadRequestError && error.status === 404) {
+      await removePendingUpload(sessionId);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Start a resumable upload for a file
+ * @returns The ID of the new file
+ */
+export async function startResumableUpload(
+  file: File,
+  options: { maxDownloads: number | null; visibility: FileVisibility; expiresIn?: FileExpiryOption },
+  callbacks: ResumableUploadCallbacks = {}
+): Promise<string> {
+  const { data } = await requestJson<{ sessionId: string; chunkSize: number; totalChunks: number }>('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: file.name, type: file.type, size: file.size, ...options }),
+    signal: callbacks.signal,
+  });
+
+  const pending: PendingUpload = {
+    sessionId: data.sessionId,
+    file,
+    chunkSize: data.chunkSize,
+    totalChunks: data.totalChunks,
+    createdAt: Date.now(),
+  };
+  callbacks.onSessionCreated?.(pending.sessionId);
+
+  try {
+    await runInStore('readwrite', (store) => store.put(pending));
+  } catch (error) {
+    // Private browsing may block IndexedDB; the upload still works, it just can't survive a reload
+    console.error('Error saving upload for resume:', error);
+  }
+
+  return resumeUpload(pending, callbacks, []);
+}
+
+/**
+ * Cancel an upload and discard what the server has received so far
+ */
+export async function cancelResumableUpload(sessionId: string): Promise<void> {
+  await removePendingUpload(sessionId);
+  await fetch(`/api/uploads/${sessionId}`, { method: 'DELETE' }).catch(() => undefined);
+}
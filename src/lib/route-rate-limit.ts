@@ -0,0 +1,174 @@
+/**
+ * Route Rate Limits
+ * Wraps route handlers that aren't covered by the upload limits (reads,
+ * downloads, account routes) with a per-route policy. All policies live in
+ * ROUTE_RATE_LIMITS below.
+ *
+ * Requests authenticated with a personal access token are always counted
+ * per token owner (see withAccessToken).
+ *
+ * Trusted clients skip every policy: requests from an IP listed in
+ * RATE_LIMIT_TRUSTED_IPS, or carrying a token from RATE_LIMIT_TRUSTED_TOKENS
+ * in the `x-rate-limit-token` header (both comma-separated).
+ */
+
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { getRateLimitStore, type RateLimitConfig } from './rate-limit-store';
+import { rateLimitHeaders, type RateLimitErrorBody } from './rate-limit-response';
+
+interface RouteRateLimitPolicy extends RateLimitConfig {
+  by: 'ip' | 'user';       // user = signed-in user ID, falling back to IP
+  trackNotFound?: boolean; // Count 404s against NOT_FOUND_LIMIT (guards against ID enumeration)
+}
+
+export const ROUTE_RATE_LIMITS = {
+  // Public listing (search and sort hit the database)
+  list: {
+    windowMs: 60 * 1000,         // 1 minute
+    maxRequests: 30,
+    maxBytes: 0,
+    by: 'ip',
+  },
+  // File and bundle details - short bursts per IP
+  read: {
+    windowMs: 60 * 1000,         // 1 minute
+    maxRequests: 120,
+    maxBytes: 0,
+    by: 'ip',
+    trackNotFound: true,
+  },
+  // Downloads count towards download caps and analytics
+  download: {
+    windowMs: 60 * 1000,         // 1 minute
+    maxRequests: 30,
+    maxBytes: 0,
+    by: 'ip',
+    trackNotFound: true,
+  },
+  // Account sync, claiming and deletion talk to Clerk
+  account: {
+    windowMs: 60 * 1000,         // 1 minute
+    maxRequests: 10,
+    maxBytes: 0,
+    by: 'user',
+  },
+} satisfies Record<string, RouteRateLimitPolicy>;
+
+export type RouteRateLimitName = keyof typeof ROUTE_RATE_LIMITS;
+
+// Misses on file and bundle IDs per IP, shared by all routes with trackNotFound
+const NOT_FOUND_LIMIT: RateLimitConfig = {
+  windowMs: 10 * 60 * 1000,      // 10 minutes
+  maxRequests: 20,
+  maxBytes: 0,
+};
+
+function parseList(value: string | undefined): Set<string> {
+  return new Set((value || '').split(',').map((item) => item.trim()).filter(Boolean));
+}
+
+function getClientIp(req: Request): string {
+  return req.headers.get('x-forwarded-for')?.split(',')[0] ||
+    req.headers.get('x-real-ip') ||
+    'unknown';
+}
+
+/**
+ * Whether the request comes from a trusted client that skips route rate limits
+ */
+export function isTrustedClient(req: Request): boolean {
+  const token = req.headers.get('x-rate-limit-token');
+  if (token && parseList(process.env.RATE_LIMIT_TRUSTED_TOKENS).has(token)) {
+    return true;
+  }
+  return parseList(process.env.RATE_LIMIT_TRUSTED_IPS).has(getClientIp(req));
+}
+
+function tooManyRequests(limit: number, resetAt: number, now: number, error: string): NextResponse {
+  const body: RateLimitErrorBody = {
+    error,
+    reason: 'rate_limit_requests',
+    limit,
+    remaining: 0,
+    resetAt,
+    retryAfter: Math.ceil((resetAt - now) / 1000),
+  };
+  return NextResponse.json(body, { status: 429, headers: rateLimitHeaders(body) });
+}
+
+/**
+ * Run `handler` under a route rate limit policy, counted against `userId`
+ * (or the caller's IP without one). Allowed responses get RateLimit headers;
+ * refused requests get the same 429 body as uploads.
+ */
+export async function applyRateLimit(
+  policyName: RouteRateLimitName,
+  req: Request,
+  userId: string | null,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const policy: RouteRateLimitPolicy = ROUTE_RATE_LIMITS[policyName];
+
+  if (isTrustedClient(req)) {
+    return handler();
+  }
+
+  const store = await getRateLimitStore();
+  const now = Date.now();
+  const ip = getClientIp(req);
+  const notFoundKey = `route:not-found:ip:${ip}`;
+
+  // Callers who keep guessing IDs are blocked before the lookup
+  if (policy.trackNotFound) {
+    const misses = await store.get(notFoundKey);
+    if (misses && now - misses.firstAttempt <= NOT_FOUND_LIMIT.windowMs && misses.count >= NOT_FOUND_LIMIT.maxRequests) {
+      return tooManyRequests(
+        NOT_FOUND_LIMIT.maxRequests,
+        misses.firstAttempt + NOT_FOUND_LIMIT.windowMs,
+        now,
+        'Too many requests for files that do not exist. Please try again later.'
+      );
+    }
+  }
+
+  const key = `route:${policyName}:${userId ? `user:${userId}` : `ip:${ip}`}`;
+  const { allowed, entry } = await store.consume(key, 0, policy, now);
+  const resetAt = entry.firstAttempt + policy.windowMs;
+
+  if (!allowed) {
+    return tooManyRequests(policy.maxRequests, resetAt, now, 'Too many requests. Please try again later.');
+  }
+
+  const response = await handler();
+
+  if (policy.trackNotFound && response.status === 404) {
+    await store.consume(notFoundKey, 0, NOT_FOUND_LIMIT, now);
+  }
+
+  const headers = rateLimitHeaders({
+    limit: policy.maxRequests,
+    remaining: Math.max(0, policy.maxRequests - entry.count),
+    resetAt,
+  });
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+
+  return response;
+}
+
+/**
+ * Apply a route rate limit policy to a route handler
+ */
+export function withRateLimit<TContext>(
+  policyName: RouteRateLimitName,
+  handler: (req: Request, context: TContext) => Promise<Response>
+): (req: Request, context: TContext) => Promise<Response> {
+  const policy: RouteRateLimitPolicy = ROUTE_RATE_LIMITS[policyName];
+
+  return async (req, context) => {
+    const userId = policy.by === 'user' && !isTrustedClient(req) ? (await auth()).userId : null;
+    return applyRateLimit(policyName, req, userId, () => handler(req, context));
+  };
+}
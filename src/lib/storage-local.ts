@@ -0,0 +1,131 @@
+/**
+ * Local filesystem storage provider
+ * Keeps objects as plain files under one directory, for running LiteShare
+ * offline in development and tests. Signed URLs point at
+ * /api/storage/local/[key], which checks the signature and streams the file.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rename, rm, stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import {
+  StorageObjectNotFoundError,
+  type StorageObjectInfo,
+  type StorageProvider,
+  type StoredObject,
+} from './storage';
+
+// Keys are random hex, which also rules out path traversal
+const KEY_PATTERN = /^[a-f0-9]{32}$/;
+
+function getSigningSecret(): string {
+  const secret = process.env.LOCAL_STORAGE_SECRET;
+  if (!secret) {
+    throw new Error('LOCAL_STORAGE_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(key: string, expiresAt: number): string {
+  return createHmac('sha256', getSigningSecret()).update(`${key}:${expiresAt}`).digest('base64url');
+}
+
+/**
+ * Check the `expires` and `signature` query parameters of a signed local URL
+ */
+export function verifyLocalSignedUrl(key: string, expires: string | null, signature: string | null): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isFinite(expiresAt) || Date.now() > expiresAt) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local' as const;
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private pathFor(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new StorageObjectNotFoundError(key);
+    }
+    return path.join(this.root, key);
+  }
+
+  async put(file: { name: string; type: string; data: Blob }): Promise<StoredObject> {
+    return this.putStream({ name: file.name, type: file.type, stream: file.data.stream() });
+  }
+
+  async putStream(file: { name: string; type: string; stream: ReadableStream<Uint8Array> }): Promise<StoredObject> {
+    await mkdir(this.root, { recursive: true });
+
+    const key = randomBytes(16).toString('hex');
+    const target = this.pathFor(key);
+    const partial = `${target}.partial`;
+
+    // Write to a temporary name first so readers never see half a file
+    try {
+      await pipeline(
+        Readable.fromWeb(file.stream as NodeReadableStream<Uint8Array>),
+        createWriteStream(partial)
+      );
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw error;
+    }
+    await rename(partial, target);
+
+    return { key, size: (await stat(target)).size };
+  }
+
+  async getStream(key: string): Promise<ReadableStream<Uint8Array>> {
+    const filePath = this.pathFor(key);
+    if (!(await this.head(key))) {
+      throw new StorageObjectNotFoundError(key);
+    }
+    return Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+  }
+
+  async delete(keys: string | string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      if (!KEY_PATTERN.test(key)) continue;
+      if (await this.head(key)) {
+        await rm(this.pathFor(key), { force: true });
+        deleted += 1;
+      }
+    }
+    return deleted;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expiresAt = Date.now() + expiresInSeconds * 1000;
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const url = new URL(`/api/storage/local/${key}`, baseUrl);
+    url.searchParams.set('expires', String(expiresAt));
+    url.searchParams.set('signature', sign(key, expiresAt));
+    return url.toString();
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const stats = await stat(this.pathFor(key));
+      return stats.isFile() ? { size: stats.size, contentType: null } : null;
+    } catch (error) {
+      if (error instanceof StorageObjectNotFoundError) return null;
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Storage Migration for LiteShare
+ * Moves stored files from one storage provider to another. File IDs (and so
+ * the public /f/[fileId] links) never change; only the row's provider and key do.
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from './db';
+import { getStorageProvider, type StorageProvider, type StorageProviderName } from './storage';
+
+interface MigrationOptions {
+  from: StorageProviderName;
+  to: StorageProviderName;
+  batchSize?: number;      // Files fetched per batch
+  concurrency?: number;    // Files copied at the same time
+  maxFiles?: number;       // Stop after this many files (for trial runs)
+  deleteSource?: boolean;  // Delete the original once the row points at the copy
+  dryRun?: boolean;        // Report what would be moved without copying
+  checkpoint?: MigrationCheckpoint | null;
+  onCheckpoint?: (checkpoint: MigrationCheckpoint) => void | Promise<void>;
+}
+
+// Saved after every batch so an interrupted run can continue where it stopped
+export interface MigrationCheckpoint {
+  from: StorageProviderName;
+  to: StorageProviderName;
+  lastFileId: string | null; // Files are processed in ID order
+  updatedAt: string;
+}
+
+export interface MigrationFailure {
+  fileId: string;
+  storageKey: string;
+  error: string;
+}
+
+export interface MigrationReport {
+  startedAt: string;
+  finishedAt: string;
+  from: StorageProviderName;
+  to: StorageProviderName;
+  dryRun: boolean;
+  scanned: number;
+  migrated: number;
+  skipped: number;          // Deleted or changed by someone else mid-copy
+  bytesCopied: number;
+  sourceDeleted: number;
+  failed: MigrationFailure[];
+  sourceDeleteFailed: MigrationFailure[]; // Migrated, but the original is still there
+  checkpoint: MigrationCheckpoint;
+}
+
+type MigratedFile = { id: string; name: string; type: string; size: number; storageKey: string };
+
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Pass a stream through unchanged while computing its size and SHA-256,
+ * which are available once the stream has been read to the end
+ */
+function withChecksum(stream: ReadableStream<Uint8Array>): {
+  stream: ReadableStream<Uint8Array>;
+  result: () => { size: number; sha256: string };
+} {
+  const hash = createHash('sha256');
+  let size = 0;
+  let sha256: string | null = null;
+
+  const checked = stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      hash.update(chunk);
+      size += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+    flush() {
+      sha256 = hash.digest('hex');
+    },
+  }));
+
+  return {
+    stream: checked,
+    result: () => {
+      if (sha256 === null) {
+        throw new Error('Stream was not read to the end');
+      }
+      return { size, sha256 };
+    },
+  };
+}
+
+/**
+ * Read a stream to the end, returning only its size and SHA-256
+ */
+async function checksumStream(stream: ReadableStream<Uint8Array>): Promise<{ size: number; sha256: string }> {
+  const checked = withChecksum(stream);
+  const reader = checked.stream.getReader();
+  while (!(await reader.read()).done) {
+    // Only the checksum is kept
+  }
+  return checked.result();
+}
+
+/**
+ * Copy one file, verify the copy and point the row at it. The bytes are
+ * streamed from source to target and hashed on the way, never held in memory.
+ * @returns 'migrated', or 'skipped' when the row changed while copying
+ */
+async function migrateFile(
+  file: MigratedFile,
+  source: StorageProvider,
+  target: StorageProvider
+): Promise<'migrated' | 'skipped'> {
+  const original = withChecksum(await source.getStream(file.storageKey));
+
+  const stored = await target.putStream({
+    name: file.name,
+    type: file.type,
+    stream: original.stream,
+  });
+
+  try {
+    const { size, sha256 } = original.result();
+    if (size !== file.size) {
+      throw new Error(`Source is ${size} bytes, expected ${file.size}`);
+    }
+
+    const info = await target.head(stored.key);
+    if (!info || info.size !== file.size) {
+      throw new Error(`Copy is ${info?.size ?? 'missing'} bytes, expected ${file.size}`);
+    }
+
+    const copy = await checksumStream(await target.getStream(stored.key));
+    if (copy.sha256 !== sha256) {
+      throw new Error('Checksum of the copy does not match the source');
+    }
+
+    // Only switch a row that still points at the object we copied
+    const { count } = await prisma.file.updateMany({
+      where: { id: file.id, storageProvider: source.name, storageKey: file.storageKey },
+      data: { storageProvider: target.name, storageKey: stored.key },
+    });
+
+    if (count === 0) {
+      await target.delete(stored.key);
+      return 'skipped';
+    }
+
+    return 'migrated';
+  } catch (error) {
+    // Don't leave orphaned copies behind
+    await target.delete(stored.key).catch((cleanupError) => {
+      console.error(`Failed to remove copy ${stored.key} after error:`, cleanupError);
+    });
+    throw error;
+  }
+}
+
+/**
+ * Run `worker` over `items` with at most `concurrency` running at once
+ */
+async function runWithConcurrency<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Move every unexpired file stored with `from` to `to`, in batches.
+ *
+ * Each file is copied, its size and SHA-256 checked against the source, and
+ * only then is its row switched, in one conditional update, so a crash at any
+ * point leaves the row pointing at a complete object. Failed files are reported
+ * and left where they are; run again without the checkpoint to retry them.
+ */
+export async function migrateStorage(options: MigrationOptions): Promise<MigrationReport> {
+  if (options.from === options.to) {
+    throw new Error('Source and target provider must differ');
+  }
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const dryRun = options.dryRun ?? false;
+
+  const resumeFrom = options.checkpoint &&
+    options.checkpoint.from === options.from &&
+    options.checkpoint.to === options.to
+    ? options.checkpoint.lastFileId
+    : null;
+
+  const report: MigrationReport = {
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    from: options.from,
+    to: options.to,
+    dryRun,
+    scanned: 0,
+    migrated: 0,
+    skipped: 0,
+    bytesCopied: 0,
+    sourceDeleted: 0,
+    failed: [],
+    sourceDeleteFailed: [],
+    checkpoint: { from: options.from, to: options.to, lastFileId: resumeFrom, updatedAt: new Date().toISOString() },
+  };
+
+  const source = await getStorageProvider(options.from);
+  const target = await getStorageProvider(options.to);
+
+  while (options.maxFiles === undefined || report.scanned < options.maxFiles) {
+    const now = new Date();
+    const batch = await prisma.file.findMany({
+      where: {
+        storageProvider: options.from,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        ...(report.checkpoint.lastFileId && { id: { gt: report.checkpoint.lastFileId } }),
+      },
+      orderBy: { id: 'asc' },
+      take: options.maxFiles === undefined ? batchSize : Math.min(batchSize, options.maxFiles - report.scanned),
+      select: { id: true, name: true, type: true, size: true, storageKey: true },
+    });
+
+    if (batch.length === 0) break;
+
+    report.scanned += batch.length;
+
+    if (dryRun) {
+      report.bytesCopied += batch.reduce((acc, file) => acc + file.size, 0);
+    } else {
+      await runWithConcurrency(batch, concurrency, async (file) => {
+        try {
+          const result = await migrateFile(file, source, target);
+          if (result === 'skipped') {
+            report.skipped += 1;
+            return;
+          }
+          report.migrated += 1;
+          report.bytesCopied += file.size;
+        } catch (error) {
+          report.failed.push({
+            fileId: file.id,
+            storageKey: file.storageKey,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return;
+        }
+
+        if (options.deleteSource) {
+          try {
+            report.sourceDeleted += await source.delete(file.storageKey);
+          } catch (error) {
+            report.sourceDeleteFailed.push({
+              fileId: file.id,
+              storageKey: file.storageKey,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      });
+    }
+
+    report.checkpoint = {
+      ...report.checkpoint,
+      lastFileId: batch[batch.length - 1].id,
+      updatedAt: new Date().toISOString(),
+    };
+    if (!dryRun) {
+      await options.onCheckpoint?.(report.checkpoint);
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+}
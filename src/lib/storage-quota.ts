@@ -0,0 +1,150 @@
+/**
+ * Storage Quota
+ * How many bytes a user or guest currently keeps, counted from their
+ * unexpired files plus uploads still in progress (resumable upload sessions
+ * and reservations for UploadThing and API uploads). Deleted and expired
+ * files stop counting straight away, so nothing has to be released.
+ *
+ * Uploads reserve their bytes with the quota check, in one transaction under
+ * a per-owner advisory lock, so parallel uploads can't each pass the check
+ * and together go over the quota.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { formatPlanBytes, type Plan } from './plans';
+import { formatBytes } from './rate-limit';
+
+export interface StorageOwner {
+  userId: string | null;
+  guestId: string | null;
+}
+
+// Reservations outlive the UploadThing presigned URLs they cover
+const RESERVATION_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface StorageUsage {
+  usedBytes: number;
+  fileCount: number;
+  reservedBytes: number;         // Part of usedBytes held for uploads still in progress
+  quotaBytes: number | null;     // null = unlimited
+  remainingBytes: number | null; // null = unlimited
+}
+
+/**
+ * Bytes kept by `owner` and how much of the plan's quota is left
+ * @param db - Transaction to read in (defaults to the shared client)
+ */
+export async function getStorageUsage(
+  owner: StorageOwner,
+  plan: Plan,
+  db: Prisma.TransactionClient = prisma
+): Promise<StorageUsage> {
+  const now = new Date();
+  const ownerFilter: Prisma.FileWhereInput & Prisma.UploadSessionWhereInput & Prisma.StorageReservationWhereInput = owner.userId
+    ? { userId: owner.userId }
+    : { guestId: owner.guestId ?? '', userId: null };
+
+  const [files, sessions, reservations] = await Promise.all([
+    db.file.aggregate({
+      where: {
+        ...ownerFilter,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      },
+      _sum: { size: true },
+      _count: true,
+    }),
+    db.uploadSession.aggregate({
+      where: { ...ownerFilter, fileId: null, expiresAt: { gt: now } },
+      _sum: { size: true },
+    }),
+    db.storageReservation.aggregate({
+      where: { ...ownerFilter, expiresAt: { gt: now } },
+      _sum: { size: true },
+    }),
+  ]);
+
+  const reservedBytes = (sessions._sum.size ?? 0) + Math.max(0, reservations._sum.size ?? 0);
+  const usedBytes = (files._sum.size ?? 0) + reservedBytes;
+
+  return {
+    usedBytes,
+    fileCount: files._count,
+    reservedBytes,
+    quotaBytes: plan.storageQuota,
+    remainingBytes: plan.storageQuota === null ? null : Math.max(0, plan.storageQuota - usedBytes),
+  };
+}
+
+function quotaExceededError(usage: StorageUsage, plan: Plan, bytes: number): string {
+  return `Storage quota exceeded! You're keeping ${formatBytes(usage.usedBytes)} of your ${formatPlanBytes(usage.quotaBytes!)} storage on the ${plan.name} plan and this upload needs ${formatBytes(bytes)}. Delete files or wait for them to expire to free up space.`;
+}
+
+/**
+ * Check that `owner` can store `bytes` more and, if so, run `reserve` to
+ * record the upload that uses them (an upload session or reservation row).
+ * Both happen in one transaction holding a per-owner advisory lock, so the
+ * next check already sees the bytes.
+ */
+export async function reserveStorageQuota<T>(
+  owner: StorageOwner,
+  plan: Plan,
+  bytes: number,
+  reserve: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<{ success: true; reserved: T } | { success: false; usage: StorageUsage; error: string }> {
+  return prisma.$transaction(async (tx) => {
+    const lockKey = owner.userId ? `storage:user:${owner.userId}` : `storage:guest:${owner.guestId}`;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+
+    const usage = await getStorageUsage(owner, plan, tx);
+    if (usage.remainingBytes !== null && bytes > usage.remainingBytes) {
+      return { success: false as const, usage, error: quotaExceededError(usage, plan, bytes) };
+    }
+
+    return { success: true as const, reserved: await reserve(tx) };
+  });
+}
+
+/**
+ * Reserve `bytes` of `owner`'s quota for an upload whose File rows are
+ * written later. Release it once they are (or the upload fails); uploads
+ * that are abandoned stop counting when the reservation expires.
+ */
+export async function createStorageReservation(
+  owner: StorageOwner,
+  plan: Plan,
+  bytes: number
+): Promise<{ success: true; reservationId: string } | { success: false; error: string }> {
+  const result = await reserveStorageQuota(owner, plan, bytes, (tx) =>
+    tx.storageReservation.create({
+      data: {
+        userId: owner.userId,
+        guestId: owner.userId ? null : owner.guestId,
+        size: bytes,
+        expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+      },
+      select: { id: true },
+    })
+  );
+
+  return result.success
+    ? { success: true, reservationId: result.reserved.id }
+    : { success: false, error: result.error };
+}
+
+/**
+ * Give back reserved bytes: `bytes` of them once a file of the upload is
+ * stored, or all that are left without `bytes`
+ */
+export async function releaseStorageReservation(reservationId: string, bytes?: number): Promise<void> {
+  if (bytes !== undefined) {
+    await prisma.storageReservation.updateMany({
+      where: { id: reservationId },
+      data: { size: { decrement: bytes } },
+    });
+  }
+
+  await prisma.storageReservation.deleteMany({
+    where: { id: reservationId, ...(bytes !== undefined && { size: { lte: 0 } }) },
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * UploadThing storage provider
+ * Objects are addressed by their UploadThing file key; reads go through
+ * short-lived signed URLs, which are generated locally from the API key
+ */
+
+import { randomBytes } from 'crypto';
+import { createWriteStream, openAsBlob } from 'fs';
+import { rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { UTApi, UTFile } from 'uploadthing/server';
+import {
+  StorageObjectNotFoundError,
+  type StorageObjectInfo,
+  type StorageProvider,
+  type StoredObject,
+} from './storage';
+
+// Signed URLs used for our own reads only need to outlive the request
+const READ_URL_TTL_SECONDS = 60;
+
+export class UploadThingStorageProvider implements StorageProvider {
+  readonly name = 'uploadthing' as const;
+  private utapi = new UTApi();
+
+  async put(file: { name: string; type: string; data: Blob }): Promise<StoredObject> {
+    const uploaded = await this.utapi.uploadFiles(new UTFile([file.data], file.name, { type: file.type }));
+    if (uploaded.error) {
+      throw new Error(`UploadThing upload failed: ${uploaded.error.message}`);
+    }
+    return { key: uploaded.data.key, size: uploaded.data.size };
+  }
+
+  async putStream(file: { name: string; type: string; stream: ReadableStream<Uint8Array> }): Promise<StoredObject> {
+    // UploadThing needs the size up front, so the stream is spooled to a
+    // temporary file and uploaded from there as a disk-backed Blob
+    const spool = path.join(os.tmpdir(), `liteshare-${randomBytes(16).toString('hex')}`);
+    try {
+      await pipeline(
+        Readable.fromWeb(file.stream as NodeReadableStream<Uint8Array>),
+        createWriteStream(spool)
+      );
+      return await this.put({ name: file.name, type: file.type, data: await openAsBlob(spool, { type: file.type }) });
+    } finally {
+      await rm(spool, { force: true });
+    }
+  }
+
+  async getStream(key: string): Promise<ReadableStream<Uint8Array>> {
+    const response = await fetch(await this.getSignedUrl(key, READ_URL_TTL_SECONDS));
+    if (response.status === 404) {
+      throw new StorageObjectNotFoundError(key);
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`UploadThing fetch failed for ${key}: ${response.status}`);
+    }
+    return response.body;
+  }
+
+  async delete(keys: string | string[]): Promise<number> {
+    const result = await this.utapi.deleteFiles(keys);
+    if (!result.success) {
+      throw new Error('UploadThing reported an unsuccessful delete');
+    }
+    return result.deletedCount;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const { ufsUrl } = await this.utapi.generateSignedURL(key, { expiresIn: expiresInSeconds });
+    return ufsUrl;
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    const response = await fetch(await this.getSignedUrl(key, READ_URL_TTL_SECONDS), { method: 'HEAD' });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`UploadThing HEAD failed for ${key}: ${response.status}`);
+    }
+    return {
+      size: Number(response.headers.get('content-length') ?? 0),
+      contentType: response.headers.get('content-type'),
+    };
+  }
+}
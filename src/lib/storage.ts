@@ -0,0 +1,111 @@
+/**
+ * File Storage Providers for LiteShare
+ * File bytes live behind a small interface so uploads can go to UploadThing
+ * in production or to the local filesystem for offline development and tests
+ */
+
+import type { StorageProviderName } from '@prisma/client';
+
+export type { StorageProviderName };
+
+export interface StoredObject {
+  key: string;             // Object key within the provider, saved as File.storageKey
+  size: number;
+}
+
+export interface StorageObjectInfo {
+  size: number;
+  contentType: string | null;
+}
+
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+
+  /**
+   * Store a new object and return its key
+   */
+  put(file: { name: string; type: string; data: Blob }): Promise<StoredObject>;
+
+  /**
+   * Store a new object from a stream, without holding it in memory
+   */
+  putStream(file: { name: string; type: string; stream: ReadableStream<Uint8Array> }): Promise<StoredObject>;
+
+  /**
+   * Stream an object's bytes. Throws StorageObjectNotFoundError if it doesn't exist.
+   */
+  getStream(key: string): Promise<ReadableStream<Uint8Array>>;
+
+  /**
+   * Delete objects. Keys that don't exist are ignored.
+   * @returns Number of objects deleted
+   */
+  delete(keys: string | string[]): Promise<number>;
+
+  /**
+   * URL that allows downloading the object directly for `expiresInSeconds`
+   */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+
+  /**
+   * Size and type of an object, or null if it doesn't exist
+   */
+  head(key: string): Promise<StorageObjectInfo | null>;
+}
+
+export class StorageObjectNotFoundError extends Error {
+  constructor(public key: string) {
+    super(`Storage object not found: ${key}`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
+
+const globalForStorage = globalThis as unknown as {
+  storageProviders: Map<StorageProviderName, Promise<StorageProvider>> | undefined;
+};
+
+/**
+ * Provider new uploads are stored with, from STORAGE_PROVIDER (default: uploadthing)
+ */
+export function getDefaultStorageProviderName(): StorageProviderName {
+  return process.env.STORAGE_PROVIDER === 'local' ? 'local' : 'uploadthing';
+}
+
+async function createStorageProvider(name: StorageProviderName): Promise<StorageProvider> {
+  switch (name) {
+    case 'local': {
+      const { LocalStorageProvider } = await import('./storage-local');
+      return new LocalStorageProvider(process.env.LOCAL_STORAGE_DIR || '.storage');
+    }
+    case 'uploadthing': {
+      const { UploadThingStorageProvider } = await import('./storage-uploadthing');
+      return new UploadThingStorageProvider();
+    }
+  }
+}
+
+/**
+ * Get the provider holding a file's bytes (or, without a name, the one for new uploads)
+ */
+export function getStorageProvider(name: StorageProviderName = getDefaultStorageProviderName()): Promise<StorageProvider> {
+  if (!globalForStorage.storageProviders) {
+    globalForStorage.storageProviders = new Map();
+  }
+
+  let provider = globalForStorage.storageProviders.get(name);
+  if (!provider) {
+    provider = createStorageProvider(name);
+    globalForStorage.storageProviders.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Replace a provider (used by tests and scripts)
+ */
+export function setStorageProvider(provider: StorageProvider): void {
+  if (!globalForStorage.storageProviders) {
+    globalForStorage.storageProviders = new Map();
+  }
+  globalForStorage.storageProviders.set(provider.name, Promise.resolve(provider));
+}
@@ -8,11 +8,24 @@ export interface FileMetadata {
   expiresAt?: string;   // Auto-expiration date
 }
 
+// private = owner only, unlisted = anyone with the link, public = listed on /browse
+export type FileVisibility = 'private' | 'unlisted' | 'public';
+
+// Expiry presets; which ones are allowed depends on the uploader's plan
+export type FileExpiryOption = '1h' | '1d' | '3d' | '7d' | 'never';
+
+export interface ExpiryChoice {
+  value: FileExpiryOption;
+  label: string;
+}
+
 export interface UploadProgress {
   fileName: string;
   fileId?: string;
+  sessionId?: string;   // Resumable uploads only
   progress: number;
-  status: 'pending' | 'uploading' | 'completed' | 'error';
+  // paused = connection lost, resuming = checking which chunks the server has
+  status: 'pending' | 'uploading' | 'paused' | 'resuming' | 'completed' | 'error';
   speed?: string;
   copied?: boolean;
 }
@@ -25,8 +38,8 @@ export interface DatabaseFile {
   uploadDate: Date;
   downloadCount: number;
   expiresAt: Date | null;
-  uploadThingId: string;
-  uploadThingUrl: string;
+  storageProvider: 'uploadthing' | 'local';
+  storageKey: string;
   userId: string | null;
   isGuest: boolean;
   createdAt: Date;
@@ -35,7 +48,7 @@ export interface DatabaseFile {
 
 export interface User {
   id: string;
-  email: string;
+  email: string | null; // null until the Clerk profile has synced
   name: string | null;
   imageUrl: string | null;
   createdAt: Date;
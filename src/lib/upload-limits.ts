@@ -0,0 +1,85 @@
+/**
+ * Upload Limits
+ * Per-file size and per-upload file count checks shared by the UploadThing
+ * routes and resumable upload sessions. The limits come from the caller's plan.
+ */
+
+import { formatPlanBytes, type Plan } from './plans';
+import { formatBytes, type checkRateLimit } from './rate-limit';
+import type { RateLimitErrorBody } from './rate-limit-response';
+
+/**
+ * Validate file size against the plan
+ */
+export function validateFileSize(
+  file: { name: string; size: number; type: string },
+  plan: Plan
+): { valid: boolean; error?: string; limit: number } {
+  const limit = plan.maxFileSize;
+
+  if (file.size > limit) {
+    return {
+      valid: false,
+      error: `File "${file.name}" (${formatBytes(file.size)}) exceeds the ${formatPlanBytes(limit)} limit of the ${plan.name} plan.`,
+      limit,
+    };
+  }
+
+  return { valid: true, limit };
+}
+
+/**
+ * Validate file count against the plan
+ */
+export function validateFileCount(
+  files: ReadonlyArray<{ name: string; size: number; type: string }>,
+  plan: Plan
+): { valid: boolean; error?: string } {
+  const limit = plan.maxFilesPerUpload;
+
+  if (files.length > limit) {
+    return {
+      valid: false,
+      error: `Too many files! Maximum ${limit} files per upload on the ${plan.name} plan. You tried to upload ${files.length} files.`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * User-facing message for a failed upload rate limit check
+ */
+export function rateLimitErrorMessage(
+  result: Awaited<ReturnType<typeof checkRateLimit>>,
+  plan: Plan
+): string {
+  const resetHours = Math.ceil(result.retryAfter! / (60 * 60));
+
+  if (result.reason === 'rate_limit_requests') {
+    return `Rate limit exceeded! You've reached the maximum number of uploads (${plan.dailyUploads} per day). Limit resets in ${resetHours} hours.`;
+  }
+
+  return `Upload limit exceeded! You've uploaded ${formatBytes(result.totalBytes)} out of your ${formatPlanBytes(plan.dailyBytes)} daily limit. Remaining: ${formatBytes(result.remainingBytes)}. Limit resets in ${resetHours} hours.`;
+}
+
+/**
+ * 429 body for a failed upload rate limit check. `limit` and `remaining`
+ * count bytes when the byte limit was hit, uploads otherwise.
+ */
+export function rateLimitErrorBody(
+  result: Awaited<ReturnType<typeof checkRateLimit>>,
+  plan: Plan
+): RateLimitErrorBody {
+  const reason = result.reason ?? 'rate_limit_requests';
+  const bytesExceeded = reason === 'rate_limit_bytes';
+
+  return {
+    error: rateLimitErrorMessage(result, plan),
+    reason,
+    limit: bytesExceeded ? plan.dailyBytes : result.limit,
+    remaining: bytesExceeded ? result.remainingBytes : result.remaining,
+    resetAt: result.resetAt,
+    retryAfter: result.retryAfter ?? Math.ceil((result.resetAt - Date.now()) / 1000),
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Upload Rate Limit Headers
+ * UploadThing checks the upload rate limit in its middleware, deep inside a
+ * route handler that builds the response itself. The middleware records the
+ * result here, in storage scoped to the request, so the POST wrapper can add
+ * RateLimit headers to allowed uploads as well.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { rateLimitHeaders } from './rate-limit-response';
+
+interface UploadRateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+const currentRequest = new AsyncLocalStorage<{ rateLimit: UploadRateLimitInfo | null }>();
+
+/**
+ * Remember the rate limit state of an allowed upload for the current request
+ */
+export function recordUploadRateLimit(info: UploadRateLimitInfo): void {
+  const request = currentRequest.getStore();
+  if (request) {
+    request.rateLimit = { limit: info.limit, remaining: info.remaining, resetAt: info.resetAt };
+  }
+}
+
+/**
+ * Run an UploadThing handler and add RateLimit headers to its response if
+ * the middleware recorded a rate limit check
+ */
+export async function withUploadRateLimitHeaders(handler: () => Promise<Response>): Promise<Response> {
+  const request: { rateLimit: UploadRateLimitInfo | null } = { rateLimit: null };
+  const response = await currentRequest.run(request, handler);
+
+  if (!request.rateLimit) {
+    return response;
+  }
+
+  // Copy the response, its headers may be immutable
+  const withHeaders = new Response(response.body, response);
+  for (const [name, value] of Object.entries(rateLimitHeaders(request.rateLimit))) {
+    withHeaders.headers.set(name, value);
+  }
+  return withHeaders;
+}
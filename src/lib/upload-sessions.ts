@@ -0,0 +1,372 @@
+/**
+ * Resumable Upload Sessions
+ * Large uploads are sent in chunks that are stored until the last one arrives,
+ * so an upload interrupted by a network drop or page reload only has to send
+ * the chunks the server hasn't received yet. Each chunk is kept as its own
+ * object in the storage provider; completing the upload streams them, in
+ * order, into the final object.
+ */
+
+import type { Prisma, UploadSession, Visibility } from '@prisma/client';
+import { prisma } from './db';
+import { getOwnership } from './file-access';
+import { createFileRecord } from './files';
+import { releaseRateLimit } from './rate-limit';
+import { getStorageProvider, type StorageProviderName } from './storage';
+
+// Stays under the 4.5MB request body limit of serverless functions
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB
+
+// How long an unfinished upload can be resumed
+export const UPLOAD_SESSION_TTL_HOURS = 24;
+
+// A crashed assembly is retried after this long
+const ASSEMBLY_LEASE_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface NewUploadSession {
+  name: string;
+  type: string;
+  size: number;
+  userId: string | null;
+  guestId: string | null;
+  maxDownloads: number | null;
+  expiryHours: number | null; // Already checked against the uploader's plan
+  visibility: Visibility;
+  rateLimitKey: string;
+}
+
+export type CompleteUploadResult =
+  | { status: 'completed'; fileId: string }
+  | { status: 'incomplete'; missingChunks: number[] }
+  | { status: 'assembling' };
+
+/**
+ * Start a resumable upload. Size and rate limits are checked by the caller.
+ * The session counts towards the storage quota until it completes or expires.
+ * @param db - Transaction to write in, e.g. the one holding the quota check
+ */
+export async function createUploadSession(
+  upload: NewUploadSession,
+  db: Prisma.TransactionClient = prisma
+): Promise<UploadSession> {
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + UPLOAD_SESSION_TTL_HOURS);
+
+  return db.uploadSession.create({
+    data: {
+      ...upload,
+      type: upload.type || 'application/octet-stream',
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      totalChunks: Math.max(1, Math.ceil(upload.size / UPLOAD_CHUNK_SIZE)),
+      expiresAt,
+    },
+  });
+}
+
+/**
+ * Load a session the current request owns. Sessions of other users and
+ * expired sessions look the same as missing ones.
+ */
+export async function getOwnedUploadSession(sessionId: string): Promise<UploadSession | null> {
+  const session = await prisma.uploadSession.findUnique({
+    where: { id: sessionId },
+  });
+
+  if (!session || new Date() > session.expiresAt) {
+    return null;
+  }
+
+  const { isOwner } = await getOwnership({
+    userId: session.userId,
+    isGuest: !session.userId,
+    guestId: session.guestId,
+  });
+
+  return isOwner ? session : null;
+}
+
+/**
+ * Indexes of the chunks the server has stored, in order
+ */
+export async function getReceivedChunks(sessionId: string): Promise<number[]> {
+  const chunks = await prisma.uploadChunk.findMany({
+    where: { sessionId },
+    select: { index: true },
+    orderBy: { index: 'asc' },
+  });
+  return chunks.map((chunk) => chunk.index);
+}
+
+/**
+ * Size every chunk must have: all are `chunkSize` except the last one
+ */
+export function expectedChunkSize(session: Pick<UploadSession, 'size' | 'chunkSize' | 'totalChunks'>, index: number): number {
+  return index === session.totalChunks - 1
+    ? session.size - session.chunkSize * (session.totalChunks - 1)
+    : session.chunkSize;
+}
+
+/**
+ * Sessions whose chunks can still be replaced: not completed, and not
+ * being assembled (unless that assembly's lease has run out)
+ */
+function acceptingChunks(now: Date): Prisma.UploadSessionWhereInput {
+  return {
+    fileId: null,
+    OR: [
+      { assemblingAt: null },
+      { assemblingAt: { lt: new Date(now.getTime() - ASSEMBLY_LEASE_MS) } },
+    ],
+  };
+}
+
+/**
+ * Store one chunk. Sending the same chunk again (after a dropped response)
+ * simply replaces it. Chunks are refused while the upload is being assembled,
+ * since the assembly may be reading the chunk that would be replaced.
+ */
+export async function saveUploadChunk(
+  session: UploadSession,
+  index: number,
+  data: Uint8Array<ArrayBuffer>
+): Promise<{ success: true } | { success: false; error: string; status: number }> {
+  if (session.fileId) {
+    return { success: false, error: 'Upload is already complete', status: 409 };
+  }
+
+  const now = new Date();
+  if (session.assemblingAt && session.assemblingAt >= new Date(now.getTime() - ASSEMBLY_LEASE_MS)) {
+    return { success: false, error: 'Upload is being assembled', status: 409 };
+  }
+
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    return { success: false, error: `Chunk index must be between 0 and ${session.totalChunks - 1}`, status: 400 };
+  }
+
+  const expected = expectedChunkSize(session, index);
+  if (data.byteLength !== expected) {
+    return { success: false, error: `Chunk ${index} must be ${expected} bytes, got ${data.byteLength}`, status: 400 };
+  }
+
+  const storage = await getStorageProvider();
+  const stored = await storage.put({
+    name: `${session.id}.part${index}`,
+    type: 'application/octet-stream',
+    data: new Blob([data]),
+  });
+
+  let saved: { previous: { storageProvider: StorageProviderName; storageKey: string } | null } | null;
+  try {
+    saved = await prisma.$transaction(async (tx) => {
+      // Touching the session row holds it until the chunk is written, so the
+      // assembly lease can't be taken in between (and vice versa)
+      const { count } = await tx.uploadSession.updateMany({
+        where: { id: session.id, ...acceptingChunks(new Date()) },
+        data: { updatedAt: new Date() },
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      const previous = await tx.uploadChunk.findUnique({
+        where: { sessionId_index: { sessionId: session.id, index } },
+        select: { storageProvider: true, storageKey: true },
+      });
+      await tx.uploadChunk.upsert({
+        where: { sessionId_index: { sessionId: session.id, index } },
+        create: { sessionId: session.id, index, size: data.byteLength, storageProvider: storage.name, storageKey: stored.key },
+        update: { size: data.byteLength, storageProvider: storage.name, storageKey: stored.key },
+      });
+      return { previous };
+    });
+  } catch (error) {
+    await storage.delete(stored.key);
+    throw error;
+  }
+
+  if (!saved) {
+    await storage.delete(stored.key);
+    return { success: false, error: 'Upload is being assembled or already complete', status: 409 };
+  }
+
+  if (saved.previous) {
+    await deleteChunkObjects([saved.previous]);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Stream the chunk objects one after another, opening each only when the
+ * previous one has been read
+ */
+function concatChunkStreams(
+  chunks: { storageProvider: StorageProviderName; storageKey: string }[]
+): ReadableStream<Uint8Array> {
+  let next = 0;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        if (!reader) {
+          if (next === chunks.length) {
+            controller.close();
+            return;
+          }
+          const chunk = chunks[next++];
+          const storage = await getStorageProvider(chunk.storageProvider);
+          reader = (await storage.getStream(chunk.storageKey)).getReader();
+        }
+
+        const { done, value } = await reader.read();
+        if (!done) {
+          controller.enqueue(value);
+          return;
+        }
+        reader = null;
+      }
+    },
+    async cancel(reason) {
+      await reader?.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Delete chunk objects from storage, grouped by provider
+ */
+async function deleteChunkObjects(
+  chunks: { storageProvider: StorageProviderName; storageKey: string }[]
+): Promise<void> {
+  const byProvider = new Map<StorageProviderName, string[]>();
+  for (const chunk of chunks) {
+    byProvider.set(chunk.storageProvider, [...(byProvider.get(chunk.storageProvider) ?? []), chunk.storageKey]);
+  }
+
+  for (const [name, keys] of byProvider) {
+    const storage = await getStorageProvider(name);
+    await storage.delete(keys);
+  }
+}
+
+/**
+ * Delete upload sessions along with their stored chunks
+ * @returns Number of sessions deleted
+ */
+export async function deleteUploadSessions(where: Prisma.UploadSessionWhereInput): Promise<number> {
+  const chunks = await prisma.uploadChunk.findMany({
+    where: { session: where },
+    select: { storageProvider: true, storageKey: true },
+  });
+
+  await deleteChunkObjects(chunks);
+
+  const { count } = await prisma.uploadSession.deleteMany({ where });
+  return count;
+}
+
+/**
+ * Assemble the chunks into one file, store it and create its File row.
+ *
+ * Only one request assembles a session at a time; a second request while
+ * that runs gets `assembling` and should poll the session for its file ID.
+ * Completing an already completed session returns the same file ID again.
+ */
+export async function completeUploadSession(session: UploadSession): Promise<CompleteUploadResult> {
+  if (session.fileId) {
+    return { status: 'completed', fileId: session.fileId };
+  }
+
+  const received = await getReceivedChunks(session.id);
+  if (received.length < session.totalChunks) {
+    const have = new Set(received);
+    const missingChunks = Array.from({ length: session.totalChunks }, (_, i) => i).filter((i) => !have.has(i));
+    return { status: 'incomplete', missingChunks };
+  }
+
+  // Take the assembly lease
+  const now = new Date();
+  const { count } = await prisma.uploadSession.updateMany({
+    where: { id: session.id, ...acceptingChunks(now) },
+    data: { assemblingAt: now },
+  });
+
+  if (count === 0) {
+    const current = await prisma.uploadSession.findUnique({
+      where: { id: session.id },
+      select: { fileId: true },
+    });
+    return current?.fileId ? { status: 'completed', fileId: current.fileId } : { status: 'assembling' };
+  }
+
+  try {
+    const chunks = await prisma.uploadChunk.findMany({
+      where: { sessionId: session.id },
+      orderBy: { index: 'asc' },
+      select: { storageProvider: true, storageKey: true },
+    });
+
+    const storage = await getStorageProvider();
+    const stored = await storage.putStream({
+      name: session.name,
+      type: session.type,
+      stream: concatChunkStreams(chunks),
+    });
+
+    if (stored.size !== session.size) {
+      await storage.delete(stored.key);
+      throw new Error(`Assembled upload ${session.id} is ${stored.size} bytes, expected ${session.size}`);
+    }
+
+    const record = await createFileRecord({
+      name: session.name,
+      size: session.size,
+      type: session.type,
+      storageProvider: storage.name,
+      key: stored.key,
+      userId: session.userId,
+      guestId: session.guestId,
+      maxDownloads: session.maxDownloads,
+      visibility: session.visibility,
+      expiryHours: session.expiryHours,
+    });
+
+    // The chunks are no longer needed; the session is kept until it expires
+    // so a retried complete request still gets the file ID
+    await prisma.$transaction([
+      prisma.uploadSession.update({
+        where: { id: session.id },
+        data: { fileId: record.id, assemblingAt: null },
+      }),
+      prisma.uploadChunk.deleteMany({ where: { sessionId: session.id } }),
+    ]);
+
+    try {
+      await deleteChunkObjects(chunks);
+    } catch (error) {
+      // The file is complete; leftover chunks only waste space
+      console.error(`Failed to delete chunks of upload ${session.id}:`, error);
+    }
+
+    return { status: 'completed', fileId: record.id };
+  } catch (error) {
+    // Let the next complete request try again straight away
+    await prisma.uploadSession.update({
+      where: { id: session.id },
+      data: { assemblingAt: null },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Cancel an unfinished upload and give back its rate limit usage
+ */
+export async function cancelUploadSession(session: UploadSession): Promise<void> {
+  await deleteUploadSessions({ id: session.id });
+
+  if (!session.fileId) {
+    await releaseRateLimit(session.rateLimitKey, session.size);
+  }
+}
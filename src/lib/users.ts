@@ -0,0 +1,162 @@
+/**
+ * User Records
+ * Keeps the local User table in sync with Clerk and holds each account's plan.
+ * Profiles arrive through the Clerk webhook (api/webhooks/clerk); requests
+ * only make sure a row exists so files can reference it.
+ */
+
+import { clerkClient, type UserJSON } from '@clerk/nextjs/server';
+import type { PlanName } from '@prisma/client';
+import { prisma } from './db';
+import { PLANS, type Plan } from './plans';
+
+/**
+ * Local profile fields from a Clerk user
+ */
+function profileFields(clerkUser: {
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  username: string | null;
+  imageUrl: string | null;
+}) {
+  const email = clerkUser.email || null;
+  const name = clerkUser.firstName
+    ? `${clerkUser.firstName}${clerkUser.lastName ? ` ${clerkUser.lastName}` : ''}`
+    : clerkUser.username || email?.split('@')[0] || 'Anonymous';
+
+  return { email, name, imageUrl: clerkUser.imageUrl || '' };
+}
+
+/**
+ * Fetch the Clerk profile for a user and create or update their local record.
+ * Only for backfilling and scripts; requests rely on the webhook.
+ */
+export async function syncUserFromClerk(clerkUserId: string) {
+  const client = await clerkClient();
+  const clerkUser = await client.users.getUser(clerkUserId);
+
+  const profile = profileFields({
+    email: clerkUser.primaryEmailAddress?.emailAddress ?? null,
+    firstName: clerkUser.firstName,
+    lastName: clerkUser.lastName,
+    username: clerkUser.username,
+    imageUrl: clerkUser.imageUrl,
+  });
+
+  return prisma.user.upsert({
+    where: { id: clerkUserId },
+    update: { ...profile, clerkUpdatedAt: new Date(clerkUser.updatedAt) },
+    create: { id: clerkUserId, ...profile, clerkUpdatedAt: new Date(clerkUser.updatedAt) },
+  });
+}
+
+/**
+ * Make sure a local record exists for a signed-in user without calling Clerk.
+ * The profile is filled in when the webhook arrives.
+ */
+export async function ensureUserRecord(clerkUserId: string): Promise<void> {
+  await prisma.user.upsert({
+    where: { id: clerkUserId },
+    update: {},
+    create: { id: clerkUserId },
+  });
+}
+
+/**
+ * Apply a profile from a `user.created` or `user.updated` webhook. Profiles
+ * older than the one already stored are ignored, so redelivered or
+ * out-of-order events can't roll a profile back.
+ * @returns Whether the profile was applied
+ */
+export async function applyClerkProfile(data: UserJSON): Promise<boolean> {
+  const primaryEmail = data.email_addresses.find((address) => address.id === data.primary_email_address_id);
+  const profile = profileFields({
+    email: primaryEmail?.email_address ?? null,
+    firstName: data.first_name,
+    lastName: data.last_name,
+    username: data.username,
+    imageUrl: data.image_url,
+  });
+  const clerkUpdatedAt = new Date(data.updated_at);
+
+  const updated = await prisma.user.updateMany({
+    where: {
+      id: data.id,
+      OR: [{ clerkUpdatedAt: null }, { clerkUpdatedAt: { lte: clerkUpdatedAt } }],
+    },
+    data: { ...profile, clerkUpdatedAt },
+  });
+  if (updated.count > 0) {
+    return true;
+  }
+
+  // No row yet (or a newer profile is stored, in which case nothing is created)
+  const created = await prisma.user.createMany({
+    data: [{ id: data.id, ...profile, clerkUpdatedAt }],
+    skipDuplicates: true,
+  });
+  return created.count > 0;
+}
+
+/**
+ * Remove a user's local record and their files' rows. Safe to call again
+ * for a user that is already gone.
+ */
+export async function deleteUserRecord(clerkUserId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.file.deleteMany({ where: { userId: clerkUserId } }),
+    prisma.user.deleteMany({ where: { id: clerkUserId } }),
+  ]);
+}
+
+/**
+ * Plan that applies to a request: the guest plan when signed out, otherwise
+ * the account's plan (free until the account has a local record)
+ */
+export async function getUserPlan(userId: string | null): Promise<Plan> {
+  if (!userId) {
+    return PLANS.guest;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { plan: true },
+  });
+
+  return PLANS[user?.plan ?? 'free'];
+}
+
+/**
+ * Plan for a new upload. Accounts in their deletion grace period can't
+ * upload (as with access tokens): the files would only be purged with them.
+ */
+export async function getUploadPlan(
+  userId: string | null
+): Promise<{ success: true; plan: Plan } | { success: false; error: string; status: number }> {
+  if (!userId) {
+    return { success: true, plan: PLANS.guest };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { plan: true, deletionRequestedAt: true },
+  });
+
+  if (user?.deletionRequestedAt) {
+    return { success: false, error: 'This account is scheduled for deletion', status: 403 };
+  }
+
+  return { success: true, plan: PLANS[user?.plan ?? 'free'] };
+}
+
+/**
+ * Move an account to another plan, creating its local record if needed
+ */
+export async function setUserPlan(clerkUserId: string, plan: PlanName) {
+  await syncUserFromClerk(clerkUserId);
+  return prisma.user.update({
+    where: { id: clerkUserId },
+    data: { plan },
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * Request Validation Schemas
+ * Zod schemas for every client-supplied body, query and upload input
+ */
+
+import { z } from 'zod';
+import { MAX_DOWNLOAD_LIMIT } from './downloads';
+import { MIN_PASSWORD_LENGTH, MAX_PASSWORD_LENGTH } from './file-password';
+import { MAX_BUNDLE_FILES } from './bundles';
+
+// Download cap: null = unlimited
+export const maxDownloadsSchema = z.number().int().min(1).max(MAX_DOWNLOAD_LIMIT).nullable();
+
+export const visibilitySchema = z.enum(['private', 'unlisted', 'public']);
+
+// Checked against the caller's plan by resolveExpiryHours
+export const expiryOptionSchema = z.enum(['1h', '1d', '3d', '7d', 'never']);
+
+// Options sent with `startUpload()` and checked by the UploadThing middleware
+// expiresIn: omitted = the plan's default expiry
+export const uploadOptionsSchema = z.object({
+  maxDownloads: maxDownloadsSchema.default(null),
+  visibility: visibilitySchema.default('unlisted'),
+  expiresIn: expiryOptionSchema.optional(),
+});
+
+// Starts a resumable upload session
+export const createUploadSessionSchema = uploadOptionsSchema.extend({
+  name: z.string().trim().min(1).max(255),
+  type: z.string().max(255).default(''),
+  size: z.number().int().positive(),
+});
+
+export const setPasswordSchema = z.object({
+  password: z.string().min(MIN_PASSWORD_LENGTH).max(MAX_PASSWORD_LENGTH).nullable(),
+});
+
+export const unlockSchema = z.object({
+  password: z.string().min(1).max(MAX_PASSWORD_LENGTH),
+});
+
+export const downloadLimitSchema = z.object({
+  maxDownloads: maxDownloadsSchema,
+});
+
+export const setVisibilitySchema = z.object({
+  visibility: visibilitySchema,
+});
+
+export const setExpirySchema = z.object({
+  expiresIn: expiryOptionSchema,
+});
+
+export const createBundleSchema = z.object({
+  fileIds: z.array(z.string().min(1)).min(1).max(MAX_BUNDLE_FILES),
+  name: z.string().trim().max(100).optional(),
+  visibility: visibilitySchema.default('unlisted'),
+});
+
+// expiresAt: null = available while any of its files are
+export const updateBundleSchema = z.object({
+  name: z.string().trim().max(100).nullable().optional(),
+  visibility: visibilitySchema.optional(),
+  expiresAt: z.iso.datetime().nullable().optional(),
+});
+
+// Comma-separated file IDs for ZIP downloads of a dashboard selection
+export const zipSelectionQuerySchema = z.object({
+  ids: z
+    .string()
+    .transform((value) => value.split(',').map((id) => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).min(1).max(MAX_BUNDLE_FILES)),
+});
+
+// Public listing on /browse and the home page
+export const publicFilesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  search: z.string().trim().max(100).default(''),
+  sortBy: z.enum(['date', 'size', 'name']).default('date'),
+});
+
+export const analyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+export const dataExportSchema = z.object({
+  includeContents: z.boolean().default(false),
+});
+
+export const createAccessTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(['read', 'upload', 'delete'])).min(1),
+});
+
+// Form fields sent with a file to POST /api/v1/files (form values are strings)
+export const apiUploadFieldsSchema = z.object({
+  maxDownloads: z.coerce.number().int().min(1).max(MAX_DOWNLOAD_LIMIT).nullable().default(null),
+  visibility: visibilitySchema.default('unlisted'),
+  expiresIn: expiryOptionSchema.optional(),
+});
+
+// Listing of the token owner's files on GET /api/v1/files
+export const apiFilesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().min(1).optional(), // `nextCursor` of the previous page
+});
+
+/**
+ * Turn the first validation issue into a readable message, e.g. "password: Too small"
+ */
+export function formatValidationError(error: z.ZodError): string {
+  const issue = error.issues[0];
+  if (!issue) return 'Invalid request';
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Parse and validate a JSON request body
+ */
+export async function parseJsonBody<T extends z.ZodType>(
+  req: Request,
+  schema: T
+): Promise<{ success: true; data: z.infer<T> } | { success: false; error: string }> {
+  const body = await req.json().catch(() => undefined);
+  if (body === undefined) {
+    return { success: false, error: 'Request body must be valid JSON' };
+  }
+
+  const result = schema.safeParse(body);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: formatValidationError(result.error) };
+}
@@ -0,0 +1,142 @@
+/**
+ * ZIP Downloads
+ * Streams several files into one ZIP while they are fetched from storage,
+ * so no file is ever held in memory as a whole
+ */
+
+import { makeZip } from 'client-zip';
+import type { StorageProviderName, Visibility } from '@prisma/client';
+import { contentDisposition, isDownloadLimitReached, recordDownload, removeWhenSent } from './downloads';
+import { getDownloadRequestInfo, logDownloadEvent } from './download-analytics';
+import { getFileAccess } from './file-access';
+import { getStorageProvider } from './storage';
+
+const DEFAULT_MAX_ZIP_BYTES = 1024 * 1024 * 1024; // 1GB
+
+export interface ZipCandidate {
+  id: string;
+  name: string;
+  size: number;
+  uploadDate: Date;
+  storageProvider: StorageProviderName;
+  storageKey: string;
+  userId: string | null;
+  isGuest: boolean;
+  guestId: string | null;
+  passwordHash: string | null;
+  visibility: Visibility;
+  downloadCount: number;
+  maxDownloads: number | null;
+  expiresAt: Date | null;
+}
+
+/**
+ * Maximum total size of a ZIP download, from ZIP_MAX_TOTAL_BYTES
+ */
+export function getMaxZipBytes(): number {
+  const bytes = parseInt(process.env.ZIP_MAX_TOTAL_BYTES || '', 10);
+  return Number.isFinite(bytes) && bytes > 0 ? bytes : DEFAULT_MAX_ZIP_BYTES;
+}
+
+/**
+ * Make file names safe and unique inside the archive:
+ * "report.pdf", "report (1).pdf", "report (2).pdf", ...
+ */
+export function dedupeFileNames(names: string[]): string[] {
+  const used = new Set<string>();
+
+  return names.map((original) => {
+    // No directories (or "../" tricks) inside the archive
+    const name = original.replace(/[/\\]/g, '_').trim() || 'file';
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.slice(0, dot) : name;
+    const ext = dot > 0 ? name.slice(dot) : '';
+
+    let candidate = name;
+    for (let i = 1; used.has(candidate.toLowerCase()); i++) {
+      candidate = `${base} (${i})${ext}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+/**
+ * Check access, size cap and download caps and stream the ZIP back.
+ * Files the caller can't download (expired, used up, private or still
+ * password-locked) are left out; if none remain the request fails.
+ * A file's download is counted when the archive reaches it and its bytes
+ * could be fetched, so files missing from storage or not reached before the
+ * client disconnected don't lose a download.
+ */
+export async function createZipDownload(
+  candidates: ZipCandidate[],
+  zipName: string
+): Promise<Response | { error: string; status: number }> {
+  const now = new Date();
+  const available: ZipCandidate[] = [];
+
+  for (const file of candidates) {
+    if (file.expiresAt && now > file.expiresAt) continue;
+    if (isDownloadLimitReached(file)) continue;
+
+    const { isHidden, isUnavailable, isLocked } = await getFileAccess(file);
+    if (isHidden || isUnavailable || isLocked) continue;
+
+    available.push(file);
+  }
+
+  if (available.length === 0) {
+    return { error: 'None of these files can be downloaded', status: 410 };
+  }
+
+  const maxBytes = getMaxZipBytes();
+  const totalBytes = available.reduce((acc, file) => acc + file.size, 0);
+  if (totalBytes > maxBytes) {
+    return {
+      error: `ZIP downloads are limited to ${Math.floor(maxBytes / (1024 * 1024))}MB. Download the files individually instead.`,
+      status: 413,
+    };
+  }
+
+  const requestInfo = await getDownloadRequestInfo();
+  const names = dedupeFileNames(available.map((file) => file.name));
+  const usedUp: string[] = [];
+
+  // Fetch each file only when the archive reaches it, and count its download
+  // once the bytes are available; files that hit their cap in the meantime
+  // or are missing from storage are dropped
+  async function* entries() {
+    for (const [i, file] of available.entries()) {
+      let input: ReadableStream<Uint8Array>;
+      try {
+        const storage = await getStorageProvider(file.storageProvider);
+        input = await storage.getStream(file.storageKey);
+      } catch (storageError) {
+        console.error(`Storage fetch failed for ${file.id}, leaving it out of the ZIP:`, storageError);
+        continue;
+      }
+
+      const result = await recordDownload(file.id);
+      if (!result.success) {
+        await input.cancel();
+        continue;
+      }
+      if (result.remainingDownloads === 0) usedUp.push(file.id);
+      await logDownloadEvent(file.id, requestInfo);
+
+      yield { name: names[i], input, lastModified: file.uploadDate, size: file.size };
+    }
+  }
+
+  // Files whose last allowed download is in this ZIP are removed once it has been sent
+  return new Response(removeWhenSent(makeZip(entries()), () => usedUp), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': contentDisposition(zipName.endsWith('.zip') ? zipName : `${zipName}.zip`),
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
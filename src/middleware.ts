@@ -1,5 +1,6 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
 import { NextResponse } from 'next/server';
+import { createGuestId, verifyGuestCookie, GUEST_COOKIE_NAME, GUEST_COOKIE_OPTIONS } from '@/lib/guest-id';
 
 // All routes are public - authentication is optional
 // Dashboard and user-specific features will handle auth internally
@@ -8,34 +9,37 @@ const isPublicRoute = createRouteMatcher([
   '/sign-in(.*)',
   '/sign-up(.*)',
   '/f/:fileId',
+  '/d/:fileId',
+  '/b/:bundleId',
+  '/b/:bundleId/zip',
   '/browse',
   '/api/uploadthing',
+  '/api/uploads(.*)',
+  '/api/storage(.*)',
   '/api/files(.*)',
+  '/api/bundles(.*)',
   '/api/dashboard(.*)',
+  '/api/webhooks(.*)',
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
   // All routes are accessible without authentication
   // Individual pages/components will handle auth state as needed
   
-  // Set guest ID cookie if not exists
-  const response = NextResponse.next();
-  const guestIdCookie = req.cookies.get('guestId');
-  
-  if (!guestIdCookie) {
-    // Generate a unique guest ID
-    const guestId = `guest_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-    
-    // Set cookie for 30 days
-    response.cookies.set('guestId', guestId, {
-      maxAge: 60 * 60 * 24 * 30, // 30 days
-      httpOnly: true,
-      sameSite: 'lax',
-      path: '/',
-    });
+  // Issue a signed guest ID cookie if it's missing or fails verification
+  const guestId = await verifyGuestCookie(req.cookies.get(GUEST_COOKIE_NAME)?.value);
+
+  if (!guestId) {
+    const { cookieValue } = await createGuestId();
+
+    // Make the new ID visible to this request's handlers as well
+    req.cookies.set(GUEST_COOKIE_NAME, cookieValue);
+    const response = NextResponse.next({ request: { headers: req.headers } });
+    response.cookies.set(GUEST_COOKIE_NAME, cookieValue, GUEST_COOKIE_OPTIONS);
+    return response;
   }
-  
-  return response;
+
+  return NextResponse.next();
 });
 
 export const config = {